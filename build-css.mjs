@@ -18,7 +18,9 @@ const outputFile = "./styles.css";
 const cssFiles = [
     "base.css",
     "modals.css",
-    "settings.css"
+    "settings.css",
+    "log-viewer.css",
+    "status-bar.css"
 ];
 
 async function bundleCSS() {
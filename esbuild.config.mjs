@@ -1,6 +1,7 @@
 import esbuild from "esbuild";
 import process from "process";
 import builtins from "builtin-modules";
+import { featureFlagDefines } from "./feature-flags.mjs";
 
 const banner =
 `/*
@@ -55,10 +56,11 @@ const context = await esbuild.context({
 	treeShaking: true,
 	outfile: `${pluginDir}/main.js`,
 	minify: prod,
-	// Define BUILD_ENV at compile time
-	// This enables dead code elimination for debug statements
+	// Define BUILD_ENV and the feature flags at compile time
+	// This enables dead code elimination for debug statements and disabled features
 	define: {
-		'BUILD_ENV': prod ? '"production"' : '"development"'
+		'BUILD_ENV': prod ? '"production"' : '"development"',
+		...featureFlagDefines(prod ? 'production' : 'development')
 	},
 });
 
@@ -0,0 +1,48 @@
+/**
+ * Feature flags - every flag is declared here
+ *
+ * Read by esbuild.config.mjs, which turns each flag into a `BUILD_FLAGS.<name>`
+ * constant so code behind a disabled flag is removed from the bundle, and by
+ * src/features/featureFlags.ts for the flag names and runtime switching.
+ *
+ * Per flag:
+ *   development / production - value in each build
+ *   runtime - can be switched in Settings → Experimental; the build value is then
+ *             only the default, and the code stays in the bundle
+ */
+
+export const FEATURE_FLAGS = {
+	contextMenus: {
+		description: 'Plugin actions in the file and editor context menus',
+		development: true,
+		production: true,
+		runtime: true
+	},
+	insertExampleSetting: {
+		description: 'Insert Example Setting editor action',
+		development: true,
+		production: false,
+		runtime: true
+	},
+	noteHistory: {
+		description: 'Count how often each note is opened, saved in the plugin data folder',
+		development: false,
+		production: false,
+		runtime: true
+	},
+	debugCommands: {
+		description: 'Developer commands, such as Show Feature Flags',
+		development: true,
+		production: false,
+		runtime: false
+	}
+};
+
+/**
+ * esbuild `define` entries for one build environment
+ * @param {'development' | 'production'} env
+ */
+export function featureFlagDefines(env) {
+	return Object.fromEntries(Object.entries(FEATURE_FLAGS)
+		.map(([name, flag]) => [`BUILD_FLAGS.${name}`, JSON.stringify(flag[env])]));
+}
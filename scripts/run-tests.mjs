@@ -0,0 +1,71 @@
+#!/usr/bin/env node
+
+/**
+ * Test Runner
+ *
+ * Bundles each tests/*.test.ts file with esbuild, resolving `obsidian` to the
+ * in-memory stand-in in tests/obsidian/, and runs the bundles with Node's
+ * built-in test runner. Bundles go to a temporary folder that is removed afterwards.
+ *
+ * Usage:
+ *   node scripts/run-tests.mjs [test files...]
+ *
+ * Examples:
+ *   npm test
+ *   node scripts/run-tests.mjs tests/logger.test.ts
+ */
+
+import esbuild from 'esbuild';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { spawnSync } from 'child_process';
+import { fileURLToPath } from 'url';
+import { featureFlagDefines } from '../feature-flags.mjs';
+
+const __filename = fileURLToPath(import.meta.url);
+const root = path.resolve(path.dirname(__filename), '..');
+const testsDir = path.join(root, 'tests');
+
+const requested = process.argv.slice(2);
+const testFiles = requested.length > 0
+	? requested.map(file => path.resolve(file))
+	: fs.readdirSync(testsDir)
+		.filter(file => file.endsWith('.test.ts'))
+		.sort()
+		.map(file => path.join(testsDir, file));
+
+if (testFiles.length === 0) {
+	console.error('No test files found');
+	process.exit(1);
+}
+
+const outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'plugin-tests-'));
+
+try {
+	await esbuild.build({
+		entryPoints: testFiles,
+		outdir: outDir,
+		bundle: true,
+		platform: 'node',
+		format: 'cjs',
+		target: 'node18',
+		sourcemap: 'inline',
+		logLevel: 'warning',
+		alias: { obsidian: path.join(testsDir, 'obsidian', 'index.ts') },
+		// Development build, so debug logging and development-only features are tested too
+		define: { BUILD_ENV: '"development"', ...featureFlagDefines('development') }
+	});
+
+	const bundles = fs.readdirSync(outDir)
+		.filter(file => file.endsWith('.test.js'))
+		.map(file => path.join(outDir, file));
+
+	const result = spawnSync(process.execPath, ['--enable-source-maps', '--test', ...bundles], { stdio: 'inherit' });
+	process.exitCode = result.status ?? 1;
+} catch (error) {
+	console.error(error instanceof Error ? error.message : error);
+	process.exitCode = 1;
+} finally {
+	fs.rmSync(outDir, { recursive: true, force: true });
+}
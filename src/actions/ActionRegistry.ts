@@ -0,0 +1,236 @@
+import { App, Editor, MarkdownFileInfo, MarkdownView, Menu, Notice, Plugin, TAbstractFile } from 'obsidian';
+import { createLogger, KnownComponent } from '../utils/Logger';
+import { ErrorBoundary } from '../utils/ErrorBoundary';
+
+/**
+ * Where an action can appear
+ */
+export type ActionSurface = 'command' | 'ribbon' | 'file-menu' | 'editor-menu';
+
+export const ACTION_SURFACES: Record<ActionSurface, string> = {
+	'command': 'Command palette',
+	'ribbon': 'Ribbon menu',
+	'file-menu': 'File menu',
+	'editor-menu': 'Editor menu'
+};
+
+/**
+ * Surface -> action id -> shown; actions left out use their default
+ */
+export type ActionPlacements = Record<ActionSurface, Record<string, boolean>>;
+
+interface BaseAction {
+	id: string;                      // Also the command id - keep it stable, hotkeys refer to it
+	name: string;
+	icon: string;
+	component?: KnownComponent;      // Errors are logged under this component (default: 'main')
+	surfaces?: ActionSurface[];      // Shown by default (default: every surface the kind supports)
+}
+
+/**
+ * Runs on its own, e.g. opening a modal
+ */
+export interface PlainAction extends BaseAction {
+	kind: 'plain';
+	isAvailable?: () => boolean;
+	run: () => unknown;
+}
+
+/**
+ * Needs a Markdown editor - the active one from the palette and ribbon
+ */
+export interface EditorAction extends BaseAction {
+	kind: 'editor';
+	isAvailable?: (editor: Editor, info: MarkdownView | MarkdownFileInfo) => boolean;
+	run: (editor: Editor, info: MarkdownView | MarkdownFileInfo) => unknown;
+}
+
+/**
+ * Works on a file or folder - the active file from the palette, ribbon and editor menu
+ */
+export interface FileAction extends BaseAction {
+	kind: 'file';
+	isAvailable?: (file: TAbstractFile) => boolean;
+	run: (file: TAbstractFile) => unknown;
+}
+
+export type Action = PlainAction | EditorAction | FileAction;
+
+export const SUPPORTED_SURFACES: Record<Action['kind'], ActionSurface[]> = {
+	plain: ['command', 'ribbon'],
+	editor: ['command', 'ribbon', 'editor-menu'],
+	file: ['command', 'ribbon', 'file-menu', 'editor-menu']
+};
+
+/**
+ * Defines each action once and shows it wherever the settings say
+ *
+ * Commands are always registered; one switched off in the settings reports itself
+ * as unavailable, which hides it from the palette. Menus are built when opened,
+ * so placement changes apply immediately. Every callback goes through the error boundary.
+ */
+export class ActionRegistry {
+	private logger = createLogger('main');
+	private actions = new Map<string, Action>();
+	private app: App;
+
+	/**
+	 * @param getPlacements - Current per-action settings, read whenever a surface is shown
+	 */
+	constructor(private plugin: Plugin, private errors: ErrorBoundary, private getPlacements: () => ActionPlacements) {
+		this.app = plugin.app;
+	}
+
+	register(action: Action): void {
+		if (this.actions.has(action.id)) {
+			throw new Error(`Action "${action.id}" is already registered`);
+		}
+		this.actions.set(action.id, action);
+		this.addCommand(action);
+	}
+
+	getActions(): Action[] {
+		return Array.from(this.actions.values());
+	}
+
+	/**
+	 * Placement of every action when nothing is saved, e.g. to build the settings defaults
+	 */
+	getDefaultPlacements(): ActionPlacements {
+		const placements: ActionPlacements = { 'command': {}, 'ribbon': {}, 'file-menu': {}, 'editor-menu': {} };
+		for (const action of this.actions.values()) {
+			for (const surface of SUPPORTED_SURFACES[action.kind]) {
+				placements[surface][action.id] = this.isShownByDefault(action, surface);
+			}
+		}
+		return placements;
+	}
+
+	isShownIn(action: Action, surface: ActionSurface): boolean {
+		if (!SUPPORTED_SURFACES[action.kind].includes(surface)) return false;
+		return this.getPlacements()[surface]?.[action.id] ?? this.isShownByDefault(action, surface);
+	}
+
+	private isShownByDefault(action: Action, surface: ActionSurface): boolean {
+		return (action.surfaces ?? SUPPORTED_SURFACES[action.kind]).includes(surface);
+	}
+
+	/**
+	 * Ribbon icon that opens a menu of the actions placed there
+	 */
+	addRibbonMenu(icon: string, title: string): HTMLElement {
+		return this.errors.addRibbonIcon(icon, title, evt => this.showRibbonMenu(evt));
+	}
+
+	/**
+	 * Add the actions placed in the file and editor context menus
+	 * @param isEnabled - Checked each time a menu opens, e.g. for a feature flag
+	 */
+	registerContextMenus(isEnabled: () => boolean = () => true): void {
+		this.plugin.registerEvent(this.app.workspace.on('file-menu', this.errors.wrap('ui', 'File menu', (menu: Menu, file: TAbstractFile) => {
+			if (!isEnabled()) return;
+			for (const action of this.actionsIn('file-menu')) {
+				if (action.kind === 'file' && this.isAvailable(action, [file])) this.addMenuItem(menu, action, file);
+			}
+		})));
+
+		this.plugin.registerEvent(this.app.workspace.on('editor-menu', this.errors.wrap('ui', 'Editor menu', (menu: Menu, editor: Editor, info: MarkdownView | MarkdownFileInfo) => {
+			if (!isEnabled()) return;
+			for (const action of this.actionsIn('editor-menu')) {
+				const args = action.kind === 'editor' ? [editor, info] : action.kind === 'file' && info.file ? [info.file] : null;
+				if (args && this.isAvailable(action, args)) this.addMenuItem(menu, action, ...args);
+			}
+		})));
+	}
+
+	private actionsIn(surface: ActionSurface): Action[] {
+		return this.getActions().filter(action => this.isShownIn(action, surface));
+	}
+
+	private addCommand(action: Action): void {
+		const { id, name, icon } = action;
+
+		if (action.kind === 'editor') {
+			this.errors.addCommand({
+				id, name, icon,
+				editorCheckCallback: (checking, editor, info) => {
+					if (!this.isShownIn(action, 'command') || !this.isAvailable(action, [editor, info])) return false;
+					if (!checking) this.run(action, editor, info);
+					return true;
+				}
+			}, action.component);
+			return;
+		}
+
+		this.errors.addCommand({
+			id, name, icon,
+			checkCallback: checking => {
+				if (!this.isShownIn(action, 'command')) return false;
+				const args = this.activeContext(action);
+				if (!args) return false;
+				if (!checking) this.run(action, ...args);
+				return true;
+			}
+		}, action.component);
+	}
+
+	private showRibbonMenu(evt: MouseEvent): void {
+		// DEBUG_START
+		this.logger.debug('Ribbon menu opened', { button: evt.button }, ['user-interaction']);
+		// DEBUG_END
+		const menu = new Menu();
+		let added = 0;
+
+		for (const action of this.actionsIn('ribbon')) {
+			const args = this.activeContext(action);
+			if (args) {
+				this.addMenuItem(menu, action, ...args);
+				added++;
+			}
+		}
+
+		if (added === 0) {
+			new Notice('No actions available here');
+			return;
+		}
+		menu.showAtMouseEvent(evt);
+	}
+
+	/**
+	 * Arguments for running the action against the active editor or file
+	 * Null when it needs one and there is none, or when it isn't available
+	 */
+	private activeContext(action: Action): unknown[] | null {
+		let args: unknown[] | null = [];
+		if (action.kind === 'editor') {
+			const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+			args = view ? [view.editor, view] : null;
+		} else if (action.kind === 'file') {
+			const file = this.app.workspace.getActiveFile();
+			args = file ? [file] : null;
+		}
+		return args && this.isAvailable(action, args) ? args : null;
+	}
+
+	/**
+	 * `args` must match the action's kind - the callers make sure of it
+	 */
+	private isAvailable(action: Action, args: unknown[]): boolean {
+		const check = action.isAvailable as ((...args: unknown[]) => boolean) | undefined;
+		return check?.(...args) ?? true;
+	}
+
+	private addMenuItem(menu: Menu, action: Action, ...args: unknown[]): void {
+		menu.addItem(item => item
+			.setTitle(action.name)
+			.setIcon(action.icon)
+			.setSection('action')
+			.onClick(() => this.run(action, ...args)));
+	}
+
+	private run(action: Action, ...args: unknown[]): void {
+		this.logger.diagnostic('Running action', { id: action.id }, ['user-interaction']);
+		const run = action.run as (...args: unknown[]) => unknown;
+		this.errors.wrap(action.component ?? 'main', `Action "${action.name}"`, run)(...args);
+	}
+}
@@ -0,0 +1,121 @@
+import { Notice, TFile } from 'obsidian';
+import type ExamplePlugin from '../main';
+import { ExampleModal } from '../ui/ExampleModal';
+import { logger } from '../utils/Logger';
+import { Action } from './ActionRegistry';
+
+/**
+ * Everything the plugin can do from the palette, ribbon or context menus
+ * Ids are the command ids - renaming one loses the user's hotkey for it.
+ */
+export function buildPluginActions(plugin: ExamplePlugin): Action[] {
+	const actions: Action[] = [
+		{
+			kind: 'plain',
+			id: 'open-example-modal',
+			name: 'Open Example Modal',
+			icon: 'dice',
+			run: () => new ExampleModal(plugin.app).open()
+		},
+		{
+			kind: 'plain',
+			id: 'open-log-viewer',
+			name: 'Open Log Viewer',
+			icon: 'scroll-text',
+			component: 'ui',
+			run: () => plugin.activateLogViewer()
+		},
+		{
+			kind: 'plain',
+			id: 'create-debug-report',
+			name: 'Create Debug Report',
+			icon: 'bug',
+			run: () => plugin.createDebugReport()
+		},
+		{
+			kind: 'plain',
+			id: 'start-diagnostic-mode',
+			name: 'Start Diagnostic Mode',
+			icon: 'activity',
+			surfaces: ['command'],
+			isAvailable: () => !logger.getDiagnosticMode().active,
+			run: () => plugin.startDiagnosticMode()
+		},
+		{
+			kind: 'plain',
+			id: 'stop-diagnostic-mode',
+			name: 'Stop Diagnostic Mode',
+			icon: 'circle-stop',
+			surfaces: ['command'],
+			isAvailable: () => logger.getDiagnosticMode().active,
+			run: () => plugin.stopDiagnosticMode()
+		},
+		{
+			kind: 'editor',
+			id: 'insert-example-setting',
+			name: 'Insert Example Setting',
+			icon: 'text-cursor-input',
+			surfaces: ['command', 'editor-menu'],
+			isAvailable: () => plugin.features.isEnabled('insertExampleSetting'),
+			run: editor => editor.replaceSelection(plugin.settings.exampleSetting)
+		},
+		{
+			kind: 'file',
+			id: 'show-file-info',
+			name: 'Show File Info',
+			icon: 'info',
+			surfaces: ['command', 'file-menu'],
+			isAvailable: file => file instanceof TFile,
+			run: file => {
+				const { stat } = file as TFile;
+				let info = `${file.path}\n${stat.size} bytes, modified ${new Date(stat.mtime).toLocaleString()}`;
+				if (plugin.features.isEnabled('noteHistory')) {
+					const opens = plugin.noteHistory.get(file.path)?.opens ?? 0;
+					info += `\nOpened ${opens} ${opens === 1 ? 'time' : 'times'}`;
+				}
+				new Notice(info);
+			}
+		},
+		{
+			kind: 'plain',
+			id: 'export-settings',
+			name: 'Export Settings',
+			icon: 'upload',
+			component: 'settings',
+			surfaces: ['command'],
+			run: () => plugin.exportSettings(false)
+		},
+		{
+			kind: 'plain',
+			id: 'import-settings',
+			name: 'Import Settings',
+			icon: 'download',
+			component: 'settings',
+			surfaces: ['command'],
+			run: () => plugin.importSettings()
+		},
+		{
+			kind: 'plain',
+			id: 'reset-settings',
+			name: 'Reset Settings to Defaults',
+			icon: 'rotate-ccw',
+			component: 'settings',
+			surfaces: ['command'],
+			run: () => plugin.resetSettings()
+		}
+	];
+
+	// Left out of builds where the flag is off
+	if (BUILD_FLAGS.debugCommands) {
+		actions.push({
+			kind: 'plain',
+			id: 'show-feature-flags',
+			name: 'Show Feature Flags',
+			icon: 'flag',
+			surfaces: ['command'],
+			run: () => plugin.showFeatureFlags()
+		});
+	}
+
+	return actions;
+}
@@ -0,0 +1,215 @@
+import { DataAdapter, debounce, Debouncer } from 'obsidian';
+import { createLogger } from '../utils/Logger';
+
+/**
+ * Returns a description of the problem, or null when the record is valid
+ * Same shape as the settings checks in validation.ts
+ */
+export type RecordCheck = (value: unknown) => string | null;
+
+export interface CollectionOptions {
+	perNote?: boolean;        // Keys are note paths - records follow renames and go away with deletes
+	validate?: RecordCheck;   // Invalid records are dropped when the file is loaded
+	saveDelay?: number;       // Milliseconds after the last change before writing (default: 1000)
+}
+
+export interface CollectionChange<T> {
+	key: string;
+	value: T | undefined;      // undefined = deleted
+	previous: T | undefined;   // undefined = added
+}
+
+export type CollectionListener<T> = (change: CollectionChange<T>) => void;
+
+interface CollectionFile {
+	version: number;
+	records: Record<string, unknown>;
+}
+
+const FILE_VERSION = 1;
+
+const log = createLogger('storage');
+
+/**
+ * Named set of records kept in memory and saved to one JSON file
+ *
+ * Changes are written after `saveDelay` without further changes, or on `flush()`.
+ * Writes go to `<file>.tmp` first, which then replaces the file, so an
+ * interrupted save leaves either the old or the new data - never half a file.
+ * Records are replaced, not patched: change them with `set` or `update`,
+ * mutating a returned record is neither saved nor reported.
+ */
+export class Collection<T> {
+	private records = new Map<string, T>();
+	private listeners: Set<CollectionListener<T>> = new Set();
+	private requestSave: Debouncer<[], void>;
+	private saving: Promise<void> = Promise.resolve();
+	private dirty = false;
+
+	constructor(private adapter: DataAdapter, readonly name: string, readonly path: string, readonly options: CollectionOptions = {}) {
+		this.requestSave = debounce(() => this.save(), options.saveDelay ?? 1000, true);
+	}
+
+	get size(): number {
+		return this.records.size;
+	}
+
+	get(key: string): T | undefined {
+		return this.records.get(key);
+	}
+
+	has(key: string): boolean {
+		return this.records.has(key);
+	}
+
+	keys(): string[] {
+		return Array.from(this.records.keys());
+	}
+
+	entries(): [string, T][] {
+		return Array.from(this.records.entries());
+	}
+
+	set(key: string, value: T): void {
+		const previous = this.records.get(key);
+		this.records.set(key, value);
+		this.changed({ key, value, previous });
+	}
+
+	/**
+	 * Replace a record with what `fn` returns for the current one
+	 */
+	update(key: string, fn: (current: T | undefined) => T): T {
+		const value = fn(this.records.get(key));
+		this.set(key, value);
+		return value;
+	}
+
+	delete(key: string): boolean {
+		const previous = this.records.get(key);
+		if (!this.records.delete(key)) return false;
+		this.changed({ key, value: undefined, previous });
+		return true;
+	}
+
+	clear(): void {
+		for (const key of this.keys()) {
+			this.delete(key);
+		}
+	}
+
+	/**
+	 * Move a record to another key, replacing any record there
+	 */
+	move(from: string, to: string): boolean {
+		const value = this.records.get(from);
+		if (value === undefined || from === to) return false;
+		this.delete(from);
+		this.set(to, value);
+		return true;
+	}
+
+	/**
+	 * Called after every change, once per record
+	 * Returns a function that removes the listener
+	 */
+	subscribe(listener: CollectionListener<T>): () => void {
+		this.listeners.add(listener);
+		return () => this.listeners.delete(listener);
+	}
+
+	/**
+	 * Read the file, replacing what is in memory - listeners are not called
+	 */
+	async load(): Promise<void> {
+		const tempPath = `${this.path}.tmp`;
+		let path = this.path;
+		if (!(await this.adapter.exists(path))) {
+			// A save stopped between removing the old file and renaming the new one
+			if (!(await this.adapter.exists(tempPath))) return;
+			path = tempPath;
+		}
+
+		const content = await this.adapter.read(path);
+		let file: CollectionFile;
+		try {
+			file = JSON.parse(content);
+			if (typeof file.records !== 'object' || file.records === null) throw new Error('No records object');
+		} catch (error) {
+			// Keep the unreadable file - the next save would overwrite it
+			let keptAs: string | null = `${this.path}.invalid`;
+			try {
+				await this.adapter.write(keptAs, content);
+			} catch (writeError) {
+				// Losing the copy is better than a plugin that doesn't load
+				log.error(`Could not keep the unreadable "${this.name}" file`, { path: keptAs }, writeError);
+				keptAs = null;
+			}
+			log.error(`Collection "${this.name}" could not be read, starting empty`, { path, keptAs }, error);
+			return;
+		}
+
+		this.records.clear();
+		// Recovered from the temporary file - write it back under the real name
+		this.dirty = path === tempPath;
+		for (const [key, value] of Object.entries(file.records)) {
+			const problem = this.options.validate?.(value) ?? null;
+			if (problem) {
+				log.warn(`Invalid record in "${this.name}" dropped: ${problem}`, { key, value });
+				this.dirty = true;
+				continue;
+			}
+			this.records.set(key, value as T);
+		}
+		log.debug('Collection loaded', { name: this.name, records: this.records.size });
+	}
+
+	/**
+	 * Write pending changes now and wait for them, e.g. when the plugin unloads
+	 */
+	async flush(): Promise<void> {
+		this.requestSave.cancel();
+		this.save();
+		await this.saving;
+	}
+
+	private changed(change: CollectionChange<T>): void {
+		this.dirty = true;
+		this.requestSave();
+		for (const listener of this.listeners) {
+			try {
+				listener(change);
+			} catch (error) {
+				log.error(`Listener of collection "${this.name}" failed`, { key: change.key }, error);
+			}
+		}
+	}
+
+	/**
+	 * Queue a write - writes never overlap, and each one saves the latest records
+	 */
+	private save(): void {
+		this.saving = this.saving.then(() => this.write());
+	}
+
+	private async write(): Promise<void> {
+		if (!this.dirty) return;
+		this.dirty = false;
+
+		const file: CollectionFile = { version: FILE_VERSION, records: {} };
+		this.records.forEach((value, key) => file.records[key] = value);
+		const tempPath = `${this.path}.tmp`;
+		try {
+			await this.adapter.write(tempPath, JSON.stringify(file, null, 2));
+			if (await this.adapter.exists(this.path)) {
+				await this.adapter.remove(this.path);
+			}
+			await this.adapter.rename(tempPath, this.path);
+			log.debug('Collection saved', { name: this.name, records: this.records.size });
+		} catch (error) {
+			// Try again with the next change or flush
+			this.dirty = true;
+			log.error(`Could not save collection "${this.name}"`, { path: this.path }, error);
+		}
+	}
+}
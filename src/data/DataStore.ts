@@ -0,0 +1,97 @@
+import { App, Plugin, TAbstractFile } from 'obsidian';
+import type { ErrorBoundary } from '../utils/ErrorBoundary';
+import { Collection, CollectionOptions } from './Collection';
+
+const COLLECTION_NAME = /^[a-z0-9-]+$/;
+
+/**
+ * Plugin data that doesn't belong in the settings: each collection is saved to
+ * its own `<name>.json` in the store folder, so a large or busy collection never
+ * rewrites the settings file or the other collections.
+ *
+ * ```ts
+ * const history = await store.collection<NoteHistory>('note-history', { perNote: true });
+ * history.update(file.path, entry => ({ opens: (entry?.opens ?? 0) + 1, ... }));
+ * ```
+ */
+export class DataStore {
+	private collections = new Map<string, Collection<unknown>>();
+
+	/**
+	 * @param folder - Vault-relative folder for the collection files, created when missing
+	 */
+	constructor(private app: App, readonly folder: string) {}
+
+	/**
+	 * Open a collection and load its file
+	 * Names are lowercase letters, digits and dashes - they become the file name.
+	 */
+	async collection<T>(name: string, options: CollectionOptions = {}): Promise<Collection<T>> {
+		if (!COLLECTION_NAME.test(name)) {
+			throw new Error(`Invalid collection name "${name}": use lowercase letters, digits and dashes`);
+		}
+		if (this.collections.has(name)) {
+			throw new Error(`Collection "${name}" is already open`);
+		}
+
+		const adapter = this.app.vault.adapter;
+		if (!(await adapter.exists(this.folder))) {
+			await adapter.mkdir(this.folder);
+		}
+
+		const collection = new Collection<T>(adapter, name, `${this.folder}/${name}.json`, options);
+		await collection.load();
+		this.collections.set(name, collection as Collection<unknown>);
+		return collection;
+	}
+
+	getCollectionNames(): string[] {
+		return Array.from(this.collections.keys());
+	}
+
+	/**
+	 * Keep per-note collections in step with the vault: records follow renamed
+	 * notes and folders, and are removed with deleted ones
+	 */
+	registerVaultEvents(plugin: Plugin, errors: ErrorBoundary): void {
+		const { vault } = this.app;
+		plugin.registerEvent(vault.on('rename', errors.wrap('storage', 'Vault rename', (file: TAbstractFile, oldPath: string) => {
+			for (const collection of this.perNoteCollections()) {
+				for (const key of collection.keys()) {
+					const moved = movedPath(key, oldPath, file.path);
+					if (moved !== null) collection.move(key, moved);
+				}
+			}
+		})));
+		plugin.registerEvent(vault.on('delete', errors.wrap('storage', 'Vault delete', (file: TAbstractFile) => {
+			for (const collection of this.perNoteCollections()) {
+				for (const key of collection.keys()) {
+					if (isAtOrInside(key, file.path)) collection.delete(key);
+				}
+			}
+		})));
+	}
+
+	/**
+	 * Write pending changes of every collection
+	 */
+	async flush(): Promise<void> {
+		await Promise.all(Array.from(this.collections.values()).map(collection => collection.flush()));
+	}
+
+	private perNoteCollections(): Collection<unknown>[] {
+		return Array.from(this.collections.values()).filter(collection => collection.options.perNote);
+	}
+}
+
+function isAtOrInside(path: string, target: string): boolean {
+	return path === target || path.startsWith(`${target}/`);
+}
+
+/**
+ * Where `path` ends up when `from` is renamed to `to`, or null when it isn't affected
+ */
+function movedPath(path: string, from: string, to: string): string | null {
+	if (!isAtOrInside(path, from)) return null;
+	return to + path.slice(from.length);
+}
@@ -0,0 +1,28 @@
+import { Collection, CollectionOptions } from './Collection';
+
+/**
+ * Example per-note collection: how often each note was opened
+ * Recorded only while the `noteHistory` feature flag is on
+ */
+
+export const NOTE_HISTORY_COLLECTION = 'note-history';
+
+export interface NoteHistory {
+	opens: number;
+	lastOpened: number;   // Milliseconds since epoch
+}
+
+export const NOTE_HISTORY_OPTIONS: CollectionOptions = {
+	perNote: true,
+	validate: value => {
+		const entry = value as Partial<NoteHistory> | null;
+		if (typeof entry !== 'object' || entry === null) return 'must be an object';
+		if (typeof entry.opens !== 'number' || entry.opens < 0) return 'opens must be a number of at least 0';
+		if (typeof entry.lastOpened !== 'number') return 'lastOpened must be a timestamp';
+		return null;
+	}
+};
+
+export function recordNoteOpen(history: Collection<NoteHistory>, path: string, now = Date.now()): NoteHistory {
+	return history.update(path, entry => ({ opens: (entry?.opens ?? 0) + 1, lastOpened: now }));
+}
@@ -0,0 +1,94 @@
+import { Plugin } from 'obsidian';
+import type { ErrorBoundary } from '../utils/ErrorBoundary';
+import { createLogger } from '../utils/Logger';
+
+/**
+ * Listeners may be async - `emit` waits for them, and a rejection is reported like a throw
+ */
+export type EventListener<P> = (payload: P) => void | Promise<void>;
+
+export interface EventBusOptions {
+	trace?: boolean;   // Log every emit at debug level, tagged `event-bus` (default: true)
+}
+
+/**
+ * Tag of the trace entries, for tag filters such as `-event-bus`
+ */
+export const EVENT_BUS_TAG = 'event-bus';
+
+/**
+ * Typed events between the plugin's own modules
+ * `Events` maps each event name to its payload type, see pluginEvents.ts.
+ *
+ * All subscriptions end when the plugin unloads, without an explicit unsubscribe -
+ * the bus registers one cleanup with the plugin, not one per subscription. A listener that throws or rejects is reported
+ * through the ErrorBoundary under `events`; the other listeners still run.
+ */
+export class EventBus<Events> {
+	private listeners = new Map<keyof Events, Set<EventListener<never>>>();
+	private log = createLogger('events');
+	// Set until the plugin unloads, so a reloaded plugin registers the cleanup again
+	private cleanupRegistered = false;
+
+	constructor(private plugin: Plugin, private errors: ErrorBoundary, private options: EventBusOptions = {}) {}
+
+	/**
+	 * Returns a function that removes the listener before the plugin unloads
+	 */
+	on<K extends keyof Events & string>(name: K, listener: EventListener<Events[K]>): () => void {
+		let listeners = this.listeners.get(name);
+		if (!listeners) {
+			listeners = new Set();
+			this.listeners.set(name, listeners);
+		}
+		listeners.add(listener);
+
+		if (!this.cleanupRegistered) {
+			this.cleanupRegistered = true;
+			this.plugin.register(() => {
+				this.listeners.clear();
+				this.cleanupRegistered = false;
+			});
+		}
+
+		return () => {
+			listeners?.delete(listener);
+		};
+	}
+
+	/**
+	 * Listen for the next emit only
+	 */
+	once<K extends keyof Events & string>(name: K, listener: EventListener<Events[K]>): () => void {
+		const unsubscribe = this.on(name, payload => {
+			unsubscribe();
+			return listener(payload);
+		});
+		return unsubscribe;
+	}
+
+	/**
+	 * Call every listener in subscription order
+	 * Resolves when async listeners have finished - never rejects.
+	 */
+	async emit<K extends keyof Events & string>(name: K, payload: Events[K]): Promise<void> {
+		const listeners = Array.from(this.listeners.get(name) ?? []) as EventListener<Events[K]>[];
+		if (this.options.trace ?? true) {
+			this.log.debug(`Event "${name}"`, { listeners: listeners.length }, [EVENT_BUS_TAG]);
+		}
+
+		const label = `"${name}" listener`;
+		await Promise.all(listeners.map(listener => {
+			try {
+				return Promise.resolve(listener(payload)).catch(error => this.errors.report('events', label, error));
+			} catch (error) {
+				this.errors.report('events', label, error);
+				return undefined;
+			}
+		}));
+	}
+
+	listenerCount(name: keyof Events & string): number {
+		return this.listeners.get(name)?.size ?? 0;
+	}
+}
@@ -0,0 +1,17 @@
+import type { LoggingOverride } from '../settings/loggingOverride';
+import type { ExamplePluginSettings } from '../settings/settings';
+import type { SettingsChange } from '../settings/transfer';
+import type { DiagnosticModeState } from '../utils/Logger';
+
+/**
+ * Events on the plugin's bus (`plugin.events`): name -> payload
+ * Add an entry here before emitting a new event - names and payloads are checked.
+ */
+export interface PluginEvents {
+	// Settings were saved with at least one change - from the settings tab, status bar, import or reset
+	'settings-changed': { settings: ExamplePluginSettings; changes: SettingsChange[] };
+	// Diagnostic mode was switched on or off, including when it expired
+	'diagnostic-mode-changed': DiagnosticModeState;
+	// The logging override file appeared, changed or went away (null)
+	'logging-override-changed': LoggingOverride | null;
+}
@@ -0,0 +1,97 @@
+import { FEATURE_FLAGS } from '../../feature-flags.mjs';
+import { createLogger } from '../utils/Logger';
+
+/**
+ * Feature flags: build values from feature-flags.mjs, plus saved values for runtime flags
+ */
+
+// Build-time constant - will be replaced by esbuild
+declare const BUILD_ENV: string;
+
+export type FeatureFlag = keyof typeof FEATURE_FLAGS;
+
+declare global {
+	/**
+	 * Build value of each flag, replaced by esbuild
+	 * Code in `if (BUILD_FLAGS.debugCommands) { ... }` is removed from builds where
+	 * the flag is off. Runtime flags can differ - check those with `FeatureFlags.isEnabled`.
+	 */
+	const BUILD_FLAGS: Record<FeatureFlag, boolean>;
+}
+
+export interface FeatureFlagState {
+	name: FeatureFlag;
+	description: string;
+	enabled: boolean;
+	buildValue: boolean;
+	runtime: boolean;     // Can be switched in the settings
+}
+
+export const FEATURE_FLAG_NAMES = Object.keys(FEATURE_FLAGS) as FeatureFlag[];
+
+function buildEnvironment(): 'development' | 'production' {
+	return typeof BUILD_ENV !== 'undefined' && BUILD_ENV === 'development' ? 'development' : 'production';
+}
+
+/**
+ * One line per flag, e.g. `contextMenus: off (switched in settings, build: on)`
+ */
+export function describeFeatureFlag({ name, enabled, buildValue, runtime }: FeatureFlagState): string {
+	const details = enabled !== buildValue ? `switched in settings, build: ${buildValue ? 'on' : 'off'}`
+		: runtime ? 'build value, switchable' : 'build value';
+	return `${name}: ${enabled ? 'on' : 'off'} (${details})`;
+}
+
+export class FeatureFlags {
+	private logger = createLogger('main');
+	private logged = new Map<FeatureFlag, boolean>();
+
+	/**
+	 * @param getSaved - Saved values of runtime flags, keyed by flag name
+	 */
+	constructor(private getSaved: () => Record<string, boolean>) {}
+
+	isEnabled(name: FeatureFlag): boolean {
+		const flag = FEATURE_FLAGS[name];
+		const buildValue = flag[buildEnvironment()];
+		return flag.runtime ? this.getSaved()[name] ?? buildValue : buildValue;
+	}
+
+	getStates(): FeatureFlagState[] {
+		return FEATURE_FLAG_NAMES.map(name => ({
+			name,
+			description: FEATURE_FLAGS[name].description,
+			enabled: this.isEnabled(name),
+			buildValue: FEATURE_FLAGS[name][buildEnvironment()],
+			runtime: FEATURE_FLAGS[name].runtime
+		}));
+	}
+
+	/**
+	 * Build values of the runtime flags - what the settings tab resets them to
+	 */
+	getRuntimeDefaults(): Record<string, boolean> {
+		const defaults: Record<string, boolean> = {};
+		for (const state of this.getStates()) {
+			if (state.runtime) defaults[state.name] = state.buildValue;
+		}
+		return defaults;
+	}
+
+	/**
+	 * Log every flag on the first call, then only the flags that changed
+	 */
+	logChanges(): void {
+		for (const state of this.getStates()) {
+			const previous = this.logged.get(state.name);
+			if (previous === state.enabled) continue;
+			this.logged.set(state.name, state.enabled);
+
+			if (previous === undefined) {
+				this.logger.diagnostic(`Feature flag ${describeFeatureFlag(state)}`, ['feature-flags']);
+			} else {
+				this.logger.info(`Feature flag "${state.name}" ${state.enabled ? 'enabled' : 'disabled'}`, ['feature-flags']);
+			}
+		}
+	}
+}
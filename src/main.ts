@@ -1,110 +1,395 @@
-import { App, Plugin, PluginSettingTab, Setting } from 'obsidian';
-import { createLogger, logger } from './utils/Logger';
-import { ExampleModal } from './ui/ExampleModal';
+import { FileSystemAdapter, Notice, Plugin, TFile, WorkspaceLeaf } from 'obsidian';
+import { ActionRegistry } from './actions/ActionRegistry';
+import { buildPluginActions } from './actions/pluginActions';
+import { Collection } from './data/Collection';
+import { DataStore } from './data/DataStore';
+import { NOTE_HISTORY_COLLECTION, NOTE_HISTORY_OPTIONS, NoteHistory, recordNoteOpen } from './data/noteHistory';
+import { EventBus } from './events/EventBus';
+import { PluginEvents } from './events/pluginEvents';
+import { describeFeatureFlag, FeatureFlags } from './features/featureFlags';
+import { createLogger, logger, MemorySink, pathRule } from './utils/Logger';
+import { LogStatusBar } from './ui/components/LogStatusBar';
+import { choose } from './ui/modals/ChooseModal';
+import { SettingsChangesModal } from './ui/modals/SettingsChangesModal';
+import { LogViewerView, VIEW_TYPE_LOG_VIEWER } from './ui/views/LogViewerView';
+import { buildDebugReport, createDebugReportNote } from './utils/debugReport';
+import { ErrorBoundary } from './utils/ErrorBoundary';
+import { ExampleSettingTab } from './settings/ExampleSettingTab';
+import { LOGGING_OVERRIDE_FILE, LoggingOverride, LoggingOverrideWatcher } from './settings/loggingOverride';
+import { loadVersionedSettings } from './settings/persistence';
+import { ExamplePluginSettings } from './settings/settings';
+import { diffSettings, exportSettings, parseSettingsImport, prepareSettingsReset, SETTINGS_EXPORT_FILE, SettingsImport } from './settings/transfer';
+import { clone } from './settings/validation';
 
-// Build-time constant - will be replaced by esbuild
-declare const BUILD_ENV: string;
+// How often the logging override file is checked for changes
+const LOGGING_OVERRIDE_CHECK_INTERVAL = 2000;
 
-interface ExamplePluginSettings {
-	exampleSetting: string;
-}
-
-const DEFAULT_SETTINGS: ExamplePluginSettings = {
-	exampleSetting: 'default'
-}
+/**
+ * Choices when switching diagnostic mode on (null = until the plugin unloads)
+ */
+const DIAGNOSTIC_DURATIONS: { label: string; minutes: number | null }[] = [
+	{ label: '15 minutes', minutes: 15 },
+	{ label: '1 hour', minutes: 60 },
+	{ label: '4 hours', minutes: 240 },
+	{ label: 'This session', minutes: null }
+];
 
 export default class ExamplePlugin extends Plugin {
 	settings: ExamplePluginSettings;
+	// Settings as last loaded or saved, to tell what a save changed
+	private savedSettings: ExamplePluginSettings;
+	private settingTab: ExampleSettingTab;
+	// Contents of LOGGING_OVERRIDE_FILE, laid over the logging settings
+	private loggingOverride: LoggingOverride | null = null;
 	private pluginLogger = createLogger('main');
+	// Errors from commands, ribbon icons, events and intervals
+	readonly errors = new ErrorBoundary(this);
+	// Typed events between the plugin's modules, see pluginEvents.ts
+	readonly events = new EventBus<PluginEvents>(this, this.errors);
+	// Commands, ribbon menu and context menu entries
+	readonly actions = new ActionRegistry(this, this.errors, () => this.settings.actions);
+	// Build-time flags, plus runtime flags switched in the settings
+	readonly features = new FeatureFlags(() => this.settings.features);
+	// Plugin data beyond the settings, one JSON file per collection
+	readonly store = new DataStore(this.app, `${this.getPluginDir()}/data`);
+	// Example per-note collection, see noteHistory.ts - filled only with the noteHistory flag on
+	noteHistory: Collection<NoteHistory>;
+	// Recent entries for the log viewer
+	private logBuffer = new MemorySink({ capacity: 1000 });
 
 	async onload() {
+		logger.addSink(this.logBuffer);
 		this.pluginLogger.info('Loading plugin...');
 		
-		// Initialize file logging (optional)
-		logger.initFileLogging(this.app);
-		
-		// Enable debug logging in development mode (removed in production builds)
-		if (typeof BUILD_ENV !== 'undefined' && BUILD_ENV === 'development') {
-			logger.setComponentLevel('main', 'debug');
-			logger.setComponentLevel('modal', 'debug');
-			logger.setComponentLevel('ui', 'debug');
-			logger.setComponentLevel('settings', 'debug');
-			logger.setComponentLevel('api', 'debug');
-			logger.setComponentLevel('events', 'debug');
-			logger.setComponentLevel('general', 'debug');
-			this.pluginLogger.debug('Debug logging enabled for all components');
-		}
-		
+		// Load settings first so the saved logging configuration applies to everything after
 		await this.loadSettings();
+		this.applyLoggingSettings();
+		this.features.logChanges();
+		this.pluginLogger.diagnostic('Logging configuration applied', logger.getConfig());
+		// Saved edits reach the rest of the plugin as 'settings-changed'
+		this.events.on('settings-changed', () => this.applyLoggingSettings());
+		this.events.on('settings-changed', () => this.features.logChanges());
 
-		// Add ribbon icon
-		this.addRibbonIcon('dice', 'Example Plugin', (evt: MouseEvent) => {
-			// DEBUG_START
-			this.pluginLogger.debug('Ribbon icon clicked', {
-				button: evt.button,
-				timestamp: Date.now()
-			}, ['user-interaction']);
-			// DEBUG_END
-			new ExampleModal(this.app).open();
+		// Hand-edited logging changes that apply without a reload, see loggingOverride.ts
+		const overrideWatcher = new LoggingOverrideWatcher(this.app, `${this.getPluginDir()}/${LOGGING_OVERRIDE_FILE}`,
+			override => this.applyLoggingOverride(override));
+		await overrideWatcher.check();
+		this.errors.registerInterval('settings', 'Logging override check', () => overrideWatcher.check(), LOGGING_OVERRIDE_CHECK_INTERVAL);
+		this.register(logger.onDiagnosticModeChanged(state => void this.events.emit('diagnostic-mode-changed', state)));
+		this.events.on('diagnostic-mode-changed', ({ active, until }) => {
+			this.pluginLogger.info(active ? 'Diagnostic mode on' : 'Diagnostic mode off', active ? { until: until ? new Date(until).toISOString() : 'unload' } : undefined);
 		});
 
-		// Add command
-		this.addCommand({
-			id: 'open-example-modal',
-			name: 'Open Example Modal',
-			callback: () => {
-				// DEBUG_START
-				this.pluginLogger.debug('Command executed via palette', undefined, ['user-interaction']);
-				// DEBUG_END
-				new ExampleModal(this.app).open();
-			}
-		});
+		// Per-note records follow renames and go away with deleted notes
+		this.noteHistory = await this.store.collection<NoteHistory>(NOTE_HISTORY_COLLECTION, NOTE_HISTORY_OPTIONS);
+		this.store.registerVaultEvents(this, this.errors);
+		this.registerEvent(this.app.workspace.on('file-open', this.errors.wrap('events', 'file-open', file => {
+			if (file && this.features.isEnabled('noteHistory')) recordNoteOpen(this.noteHistory, file.path);
+		})));
+
+		// Warning and error counts, see LogStatusBar.ts
+		this.addChild(new LogStatusBar(this, this.addStatusBarItem()));
+
+		this.registerView(VIEW_TYPE_LOG_VIEWER, (leaf) => new LogViewerView(leaf, this.logBuffer));
+
+		// Each action is defined once in pluginActions.ts - the settings decide where it appears
+		for (const action of buildPluginActions(this)) {
+			this.actions.register(action);
+		}
+		this.actions.addRibbonMenu('dice', 'Example Plugin');
+		this.actions.registerContextMenus(() => this.features.isEnabled('contextMenus'));
 
 		// Add settings tab
-		this.addSettingTab(new ExampleSettingTab(this.app, this));
+		this.settingTab = new ExampleSettingTab(this.app, this);
+		this.addSettingTab(this.settingTab);
 		
 		this.pluginLogger.info('Plugin loaded successfully');
 	}
 
-	onunload() {
+	async onunload() {
 		this.pluginLogger.info('Unloading plugin...');
-		logger.disableFileLogging();
+		// Diagnostic mode only lasts for the session
+		logger.disableDiagnosticMode();
+		// Changes still waiting for the save delay
+		await this.store.flush();
+		// Wait for pending entries so the last lines of the session reach the file
+		await logger.disableFileLogging();
+		await logger.removeSink(this.logBuffer.name);
+	}
+
+	/**
+	 * Write a debug report note for bug reports and open it
+	 */
+	async createDebugReport() {
+		try {
+			const content = buildDebugReport(this.app, {
+				manifest: this.manifest,
+				settings: this.settings,
+				entries: this.logBuffer.getEntries(),
+				errorCounts: this.errors.getErrorCounts(),
+				featureFlags: this.features.getStates()
+			});
+			const file = await createDebugReportNote(this.app, content);
+			await this.app.workspace.getLeaf(true).openFile(file);
+			this.pluginLogger.info('Debug report created', { path: file.path });
+		} catch (error) {
+			this.pluginLogger.error('Failed to create debug report', error);
+			new Notice('Could not create debug report, see the console for details');
+		}
+	}
+
+	/**
+	 * Ask for how long and switch diagnostic mode on
+	 */
+	async startDiagnosticMode() {
+		const duration = await choose(this.app, {
+			items: DIAGNOSTIC_DURATIONS,
+			getText: choice => choice.label,
+			placeholder: 'Log diagnostic details for...',
+			fuzzy: false
+		});
+		if (!duration) return;
+
+		logger.enableDiagnosticMode(duration.minutes === null ? undefined : duration.minutes * 60 * 1000);
+		new Notice(duration.minutes === null
+			? 'Diagnostic mode on for this session'
+			: `Diagnostic mode on for ${duration.label}`);
+	}
+
+	stopDiagnosticMode() {
+		logger.disableDiagnosticMode();
+		new Notice('Diagnostic mode off');
+	}
+
+	/**
+	 * Log and show the state of every feature flag
+	 */
+	showFeatureFlags() {
+		const lines = this.features.getStates().map(describeFeatureFlag);
+		this.pluginLogger.info('Feature flags', lines);
+		new Notice(`Feature flags\n${lines.join('\n')}`, 10000);
+	}
+
+	/**
+	 * Reveal the log viewer, opening it in the right sidebar if needed
+	 */
+	async activateLogViewer() {
+		const { workspace } = this.app;
+
+		let leaf: WorkspaceLeaf | null = workspace.getLeavesOfType(VIEW_TYPE_LOG_VIEWER)[0] ?? null;
+		if (!leaf) {
+			leaf = workspace.getRightLeaf(false);
+			if (!leaf) {
+				this.pluginLogger.warn('No sidebar leaf available for the log viewer');
+				return;
+			}
+			await leaf.setViewState({ type: VIEW_TYPE_LOG_VIEWER, active: true });
+		}
+
+		await workspace.revealLeaf(leaf);
 	}
 
 	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		this.settings = await loadVersionedSettings(this, this.getPluginDir());
+		this.savedSettings = clone(this.settings);
 	}
 
+	/**
+	 * Save and announce what changed - listeners of 'settings-changed' apply it
+	 */
 	async saveSettings() {
 		await this.saveData(this.settings);
+		const changes = diffSettings(this.savedSettings, this.settings);
+		this.savedSettings = clone(this.settings);
+		if (changes.length > 0) {
+			await this.events.emit('settings-changed', { settings: this.settings, changes });
+		}
+	}
+
+	/**
+	 * Write the settings to SETTINGS_EXPORT_FILE in the vault root, replacing an earlier export
+	 * Secrets are only written when `includeSecrets` is set
+	 */
+	async exportSettings(includeSecrets: boolean) {
+		try {
+			const content = exportSettings(this.settings, includeSecrets);
+			const existing = this.app.vault.getAbstractFileByPath(SETTINGS_EXPORT_FILE);
+			if (existing instanceof TFile) {
+				await this.app.vault.modify(existing, content);
+			} else {
+				await this.app.vault.create(SETTINGS_EXPORT_FILE, content);
+			}
+			this.pluginLogger.info('Settings exported', { path: SETTINGS_EXPORT_FILE, includeSecrets });
+			new Notice(`Settings exported to ${SETTINGS_EXPORT_FILE}${includeSecrets ? ' (including secrets)' : ''}`);
+		} catch (error) {
+			this.pluginLogger.error('Failed to export settings', error);
+			new Notice('Could not export settings, see the console for details');
+		}
+	}
+
+	/**
+	 * Pick a JSON file, show what it would change and apply it after confirmation
+	 */
+	async importSettings() {
+		const file = await choose(this.app, {
+			items: this.app.vault.getFiles().filter(candidate => candidate.extension === 'json'),
+			getText: candidate => candidate.path,
+			placeholder: 'Choose a settings file to import',
+			emptyText: 'No JSON files in the vault'
+		});
+		if (!file) return;
+
+		let result: SettingsImport;
+		try {
+			result = parseSettingsImport(await this.app.vault.read(file), this.settings);
+		} catch (error) {
+			this.pluginLogger.warn('Settings import rejected', { path: file.path }, error);
+			new Notice(`Could not import ${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+			return;
+		}
+
+		const { settings, changes, repairs } = result;
+		if (changes.length === 0) {
+			new Notice(`${file.name} matches the current settings`);
+			return;
+		}
+
+		const confirmed = await new SettingsChangesModal(this.app, {
+			title: `Import settings from ${file.name}`,
+			changes,
+			repairs,
+			confirmText: 'Import'
+		}).openAndWait();
+		if (!confirmed) return;
+
+		await this.replaceSettings(settings);
+		this.pluginLogger.info('Settings imported', { path: file.path, changed: changes.length, repaired: repairs.length });
+		new Notice(`Imported ${changes.length} ${changes.length === 1 ? 'setting' : 'settings'}`);
+	}
+
+	/**
+	 * Show what differs from DEFAULT_SETTINGS and reset after confirmation
+	 */
+	async resetSettings() {
+		const { settings, changes } = prepareSettingsReset(this.settings);
+		if (changes.length === 0) {
+			new Notice('Settings already match the defaults');
+			return;
+		}
+
+		const confirmed = await new SettingsChangesModal(this.app, {
+			title: 'Reset settings to defaults',
+			changes,
+			confirmText: 'Reset'
+		}).openAndWait();
+		if (!confirmed) return;
+
+		await this.replaceSettings(settings);
+		this.pluginLogger.info('Settings reset to defaults', { changed: changes.length });
+		new Notice('Settings reset to defaults');
+	}
+
+	/**
+	 * Swap in a whole new settings object and refresh the settings tab
+	 */
+	private async replaceSettings(settings: ExamplePluginSettings) {
+		this.settings = settings;
+		await this.saveSettings();
+		this.settingTab.display();
 	}
-}
 
-class ExampleSettingTab extends PluginSettingTab {
-	plugin: ExamplePlugin;
-	private logger = createLogger('settings');
+	/**
+	 * Push the saved logging options into the Logger
+	 * Levels and tag filters in the override file win until it is deleted
+	 */
+	applyLoggingSettings() {
+		const { levels, tagFilters, fileLogging, logFileName } = this.settings.logging;
+		const override = this.loggingOverride;
 
-	constructor(app: App, plugin: ExamplePlugin) {
-		super(app, plugin);
-		this.plugin = plugin;
+		// Only registered components - saved entries for removed components are ignored
+		const config = logger.getConfig();
+		for (const component of logger.getComponentNames()) {
+			config[component] = override?.levels[component] ?? levels[component] ?? config[component];
+		}
+		logger.setConfig(config);
+
+		logger.clearAllTagFilters();
+		for (const component of logger.getComponentNames()) {
+			const filter = override?.tagFilters[component] ?? tagFilters[component];
+			if (filter) {
+				logger.setTagFilter(component, filter);
+			}
+		}
+
+		this.applyPathRedaction(this.settings.logging.redactPaths);
+
+		const { collapseRepeats, rateLimitPerSecond } = this.settings.logging;
+		logger.setThrottleConfig({
+			dedupe: collapseRepeats,
+			defaultComponentLimit: rateLimitPerSecond > 0 ? { perSecond: rateLimitPerSecond } : null
+		});
+
+		if (fileLogging) {
+			const { logFormat, logInPluginFolder, maxLogSizeKB, maxLogFiles, maxLogAgeDays } = this.settings.logging;
+			logger.initFileLogging(this.app, logFileName, {
+				format: logFormat,
+				folder: logInPluginFolder ? `${this.getPluginDir()}/logs` : undefined,
+				maxFileSize: maxLogSizeKB * 1024,
+				maxFiles: maxLogFiles,
+				maxAgeDays: maxLogAgeDays
+			});
+		} else if (logger.isFileLoggingEnabled()) {
+			void logger.disableFileLogging();
+		}
 	}
 
-	display(): void {
-		const { containerEl } = this;
-		containerEl.empty();
+	/**
+	 * Lay the override file over the logging settings - null goes back to the settings
+	 */
+	private applyLoggingOverride(override: LoggingOverride | null) {
+		const previous = this.loggingOverride;
+		this.loggingOverride = override;
+		this.applyLoggingSettings();
+		void this.events.emit('logging-override-changed', override);
 
-		this.logger.debug('Displaying settings tab');
+		// Edits to other entries must not restart a running session's timer
+		const diagnostic = override?.diagnostic;
+		if (diagnostic === previous?.diagnostic) return;
+		if (typeof diagnostic === 'number') {
+			logger.enableDiagnosticMode(diagnostic * 60 * 1000);
+		} else if (diagnostic === true) {
+			logger.enableDiagnosticMode();
+		} else if (diagnostic === false || previous?.diagnostic) {
+			// Switched off in the file, or no longer switched on by it
+			logger.disableDiagnosticMode();
+		}
+	}
+
+	/**
+	 * Replace absolute vault and home folder paths in log output with placeholders
+	 * Only desktop has absolute paths - on mobile there is nothing to replace
+	 */
+	private applyPathRedaction(enabled: boolean) {
+		logger.removeRedactionRule('vault-path');
+		logger.removeRedactionRule('home-path');
+		if (!enabled) return;
+
+		// Vault first - it usually lives inside the home folder
+		const adapter = this.app.vault.adapter;
+		if (adapter instanceof FileSystemAdapter) {
+			logger.addRedactionRule(pathRule('vault-path', adapter.getBasePath(), '<vault>'));
+		}
+
+		const home = typeof process !== 'undefined' ? (process.env.HOME ?? process.env.USERPROFILE) : undefined;
+		if (home) {
+			logger.addRedactionRule(pathRule('home-path', home, '<home>'));
+		}
+	}
 
-		new Setting(containerEl)
-			.setName('Example Setting')
-			.setDesc('This is an example setting')
-			.addText(text => text
-				.setPlaceholder('Enter your setting')
-				.setValue(this.plugin.settings.exampleSetting)
-				.onChange(async (value) => {
-					this.logger.debug('Setting changed', { value });
-					this.plugin.settings.exampleSetting = value;
-					await this.plugin.saveSettings();
-				}));
+	/**
+	 * Vault-relative path of this plugin's folder
+	 */
+	getPluginDir(): string {
+		return this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
 	}
 }
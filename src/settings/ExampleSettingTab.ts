@@ -0,0 +1,88 @@
+import { App, PluginSettingTab, Setting } from 'obsidian';
+import type ExamplePlugin from '../main';
+import { createLogger } from '../utils/Logger';
+import { SettingsRenderer } from './SettingsRenderer';
+import { DEFAULT_SETTINGS, ExamplePluginSettings } from './settings';
+import { buildSettingsSchema } from './settingsSchema';
+import { SETTINGS_EXPORT_FILE } from './transfer';
+
+export class ExampleSettingTab extends PluginSettingTab {
+	plugin: ExamplePlugin;
+	private logger = createLogger('settings');
+	private renderer: SettingsRenderer<ExamplePluginSettings> | null = null;
+
+	constructor(app: App, plugin: ExamplePlugin) {
+		super(app, plugin);
+		this.plugin = plugin;
+	}
+
+	display(): void {
+		const { containerEl } = this;
+		containerEl.empty();
+
+		this.logger.debug('Displaying settings tab');
+
+		// Fields are described in settingsSchema.ts
+		this.renderer = new SettingsRenderer({
+			app: this.app,
+			schema: buildSettingsSchema(this.plugin.actions, this.plugin.features),
+			settings: this.plugin.settings,
+			// Action placements default to what each action declares, runtime flags to their build value
+			defaults: {
+				...DEFAULT_SETTINGS,
+				actions: this.plugin.actions.getDefaultPlacements(),
+				features: this.plugin.features.getRuntimeDefaults()
+			},
+			save: () => this.plugin.saveSettings()
+		});
+		this.renderer.render(containerEl);
+
+		this.displayTransferSettings(containerEl);
+	}
+
+	/**
+	 * Export, import and reset - actions rather than stored values, so not part of the schema
+	 */
+	private displayTransferSettings(containerEl: HTMLElement): void {
+		let includeSecrets = false;
+
+		new Setting(containerEl).setName('Import and export').setHeading();
+
+		new Setting(containerEl)
+			.setName('Export settings')
+			.setDesc(`Write all settings to ${SETTINGS_EXPORT_FILE} in the vault root. Secrets such as API keys are only included when the switch is on.`)
+			.addToggle(toggle => toggle
+				.setTooltip('Include secrets such as API keys')
+				.setValue(includeSecrets)
+				.onChange(value => {
+					includeSecrets = value;
+				}))
+			.addButton(button => button
+				.setButtonText('Export')
+				.onClick(this.plugin.errors.wrap('settings', 'Export settings', () => {
+					this.renderer?.flush();
+					return this.plugin.exportSettings(includeSecrets);
+				})));
+
+		new Setting(containerEl)
+			.setName('Import settings')
+			.setDesc('Load settings from a JSON file in the vault. Changes are listed for confirmation first.')
+			.addButton(button => button
+				.setButtonText('Import')
+				.onClick(this.plugin.errors.wrap('settings', 'Import settings', () => this.plugin.importSettings())));
+
+		new Setting(containerEl)
+			.setName('Reset settings')
+			.setDesc('Restore every setting to its default')
+			.addButton(button => button
+				.setButtonText('Reset')
+				.setWarning()
+				.onClick(this.plugin.errors.wrap('settings', 'Reset settings', () => this.plugin.resetSettings())));
+	}
+
+	hide(): void {
+		// Don't lose the last edit to the save delay
+		this.renderer?.flush();
+		this.renderer = null;
+	}
+}
@@ -0,0 +1,306 @@
+import { App, debounce, Debouncer, ExtraButtonComponent, Notice, Setting, TextComponent } from 'obsidian';
+import { PathSuggest } from '../ui/components/PathSuggest';
+import { createLogger } from '../utils/Logger';
+import { getPath, SettingsSchema, SettingsSection, setPath } from './schema';
+import { clone } from './validation';
+
+export interface SettingsRendererOptions<S> {
+	app: App;
+	schema: SettingsSchema<S>;
+	settings: S;                  // Edited in place
+	defaults: S;
+	save: () => Promise<void>;
+	saveDelay?: number;           // Milliseconds without changes before saving (default: 500)
+}
+
+/**
+ * All field properties, for code that handles every field type
+ */
+interface AnyField<S> {
+	type: 'text' | 'number' | 'toggle' | 'dropdown' | 'color' | 'folder' | 'file' | 'list';
+	path: string;
+	name: string;
+	desc?: string;
+	visible?: (settings: S) => boolean;
+	validate?: (value: unknown) => string | null;
+	placeholder?: string;
+	multiline?: boolean;
+	password?: boolean;
+	commitOnBlur?: boolean;
+	format?: (value: unknown) => string;
+	parse?: (text: string) => unknown;
+	min?: number;
+	max?: number;
+	step?: number;
+	slider?: boolean;
+	options?: Record<string, string>;
+	extensions?: string[];
+	suggest?: 'folder' | 'file';
+}
+
+interface RenderedField<S> {
+	field: AnyField<S>;
+	section: SettingsSection<S>;
+	setting: Setting;
+	errorEl: HTMLElement;
+	resetEl: HTMLElement;
+}
+
+/**
+ * Builds settings UI from a schema
+ * Changes are validated inline and saved once typing stops
+ */
+export class SettingsRenderer<S extends object> {
+	private logger = createLogger('settings');
+	private fields: RenderedField<S>[] = [];
+	private headings: { section: SettingsSection<S>; el: HTMLElement }[] = [];
+	private rootEl: HTMLElement | null = null;
+	private requestSave: Debouncer<[], void>;
+
+	constructor(private options: SettingsRendererOptions<S>) {
+		this.requestSave = debounce(() => {
+			this.options.save().catch(error => {
+				this.logger.error('Failed to save settings', error);
+				new Notice('Could not save settings, see the console for details');
+			});
+		}, options.saveDelay ?? 500, true);
+	}
+
+	render(containerEl: HTMLElement): void {
+		this.rootEl = containerEl.createDiv({ cls: 'example-settings-form' });
+		this.renderSections();
+	}
+
+	/**
+	 * Save pending changes now, e.g. when the settings tab closes
+	 */
+	flush(): void {
+		this.requestSave.run();
+	}
+
+	private renderSections(): void {
+		if (!this.rootEl) return;
+		this.rootEl.empty();
+		this.fields = [];
+		this.headings = [];
+
+		for (const section of this.options.schema) {
+			if (section.heading) {
+				const heading = new Setting(this.rootEl).setName(section.heading).setHeading();
+				if (section.description) heading.setDesc(section.description);
+				this.headings.push({ section, el: heading.settingEl });
+			}
+			for (const field of section.fields) {
+				this.renderField(this.rootEl, field as unknown as AnyField<S>, section);
+			}
+		}
+
+		this.updateVisibility();
+	}
+
+	private renderField(containerEl: HTMLElement, field: AnyField<S>, section: SettingsSection<S>): void {
+		const setting = new Setting(containerEl).setName(field.name);
+		if (field.desc) setting.setDesc(field.desc);
+
+		const errorEl = setting.infoEl.createDiv({ cls: 'example-setting-error' });
+		errorEl.hide();
+
+		const rendered: RenderedField<S> = { field, section, setting, errorEl, resetEl: errorEl };
+		const current = this.valueAt(field.path);
+		const update = (value: unknown) => this.update(rendered, value);
+
+		switch (field.type) {
+			case 'text':
+			case 'folder':
+			case 'file': {
+				const pathKind = field.type === 'text' ? null : field.type;
+				if (field.multiline) {
+					setting.addTextArea(text => text
+						.setPlaceholder(field.placeholder ?? '')
+						.setValue(String(current ?? ''))
+						.onChange(update));
+				} else {
+					setting.addText(text => {
+						const parse = (value: string) => field.parse ? field.parse(value) : value;
+						text.setPlaceholder(field.placeholder ?? '')
+							.setValue(field.format ? field.format(current) : String(current ?? ''));
+						if (field.commitOnBlur) {
+							// Problems show while typing - the value is applied on 'change', which fires on blur and Enter
+							text.onChange(value => this.showProblem(rendered, this.check(field, parse(value))));
+							text.inputEl.addEventListener('change', () => update(parse(text.getValue())));
+						} else {
+							text.onChange(value => update(parse(value)));
+						}
+						if (field.password) text.inputEl.type = 'password';
+						if (pathKind) {
+							new PathSuggest(this.options.app, text.inputEl, pathKind, field.extensions);
+						}
+					});
+				}
+				break;
+			}
+			case 'number':
+				this.renderNumber(setting, field, current as number, update);
+				break;
+			case 'toggle':
+				setting.addToggle(toggle => toggle.setValue(Boolean(current)).onChange(update));
+				break;
+			case 'dropdown':
+				setting.addDropdown(dropdown => dropdown
+					.addOptions(field.options ?? {})
+					.setValue(String(current ?? ''))
+					.onChange(update));
+				break;
+			case 'color':
+				setting.addColorPicker(color => color.setValue(String(current ?? '')).onChange(update));
+				break;
+			case 'list':
+				this.renderList(setting, field, Array.isArray(current) ? current as string[] : [], update);
+				break;
+		}
+
+		setting.addExtraButton(button => {
+			button.setIcon('rotate-ccw')
+				.setTooltip('Restore default')
+				.onClick(() => this.reset(rendered));
+			rendered.resetEl = button.extraSettingsEl;
+		});
+
+		this.fields.push(rendered);
+		this.updateResetButton(rendered);
+	}
+
+	private renderNumber(setting: Setting, field: AnyField<S>, current: number, update: (value: unknown) => void): void {
+		const step = field.step ?? 1;
+
+		if (field.slider && field.min !== undefined && field.max !== undefined) {
+			setting.addSlider(slider => slider
+				.setLimits(field.min ?? 0, field.max ?? 100, step)
+				.setValue(current)
+				.setDynamicTooltip()
+				.onChange(update));
+			return;
+		}
+
+		setting.addText(text => {
+			text.inputEl.type = 'number';
+			text.inputEl.step = String(step);
+			if (field.min !== undefined) text.inputEl.min = String(field.min);
+			if (field.max !== undefined) text.inputEl.max = String(field.max);
+			text.setValue(String(current)).onChange(raw => {
+				update(raw.trim() === '' ? NaN : Number(raw));
+			});
+		});
+	}
+
+	/**
+	 * Items with remove buttons, plus an input to add more
+	 */
+	private renderList(setting: Setting, field: AnyField<S>, current: string[], update: (value: unknown) => void): void {
+		const items = [...current];
+		setting.settingEl.addClass('example-setting-list-field');
+		const listEl = setting.settingEl.createDiv({ cls: 'example-setting-list' });
+		let input: TextComponent;
+
+		const renderItems = (): void => {
+			listEl.empty();
+			items.forEach((item, index) => {
+				const itemEl = listEl.createDiv({ cls: 'example-setting-list-item' });
+				itemEl.createSpan({ text: item });
+				new ExtraButtonComponent(itemEl).setIcon('x').setTooltip('Remove').onClick(() => {
+					items.splice(index, 1);
+					renderItems();
+					update([...items]);
+				});
+			});
+		};
+
+		const add = (): void => {
+			const value = input.getValue().trim();
+			if (!value || items.includes(value)) return;
+			items.push(value);
+			input.setValue('');
+			renderItems();
+			update([...items]);
+		};
+
+		setting.addText(text => {
+			input = text.setPlaceholder(field.placeholder ?? '');
+			if (field.suggest) {
+				new PathSuggest(this.options.app, text.inputEl, field.suggest);
+			}
+			text.inputEl.addEventListener('keydown', event => {
+				if (event.key === 'Enter') add();
+			});
+		});
+		setting.addButton(button => button.setButtonText('Add').onClick(add));
+		renderItems();
+	}
+
+	private update(rendered: RenderedField<S>, value: unknown): void {
+		const problem = this.check(rendered.field, value);
+		this.showProblem(rendered, problem);
+		if (problem !== null) return;
+
+		setPath(this.options.settings, rendered.field.path, value);
+		this.logger.debug('Setting changed', { path: rendered.field.path, value });
+
+		this.updateResetButton(rendered);
+		this.updateVisibility();
+		this.requestSave();
+	}
+
+	private showProblem(rendered: RenderedField<S>, problem: string | null): void {
+		rendered.errorEl.setText(problem ?? '');
+		rendered.errorEl.toggle(problem !== null);
+		rendered.setting.settingEl.toggleClass('example-setting-invalid', problem !== null);
+	}
+
+	private check(field: AnyField<S>, value: unknown): string | null {
+		if (field.type === 'number') {
+			const step = field.step ?? 1;
+			if (typeof value !== 'number' || isNaN(value)) return 'Enter a number';
+			if (field.min !== undefined && value < field.min) return `Must be at least ${field.min}`;
+			if (field.max !== undefined && value > field.max) return `Must be at most ${field.max}`;
+			if (step === 1 && !Number.isInteger(value)) return 'Must be a whole number';
+		}
+		if (value === undefined) return null;
+		const problem = field.validate?.(value) ?? null;
+		// Shared checks describe the value ("must not be empty") - capitalize for display
+		return problem && problem.charAt(0).toUpperCase() + problem.slice(1);
+	}
+
+	private reset(rendered: RenderedField<S>): void {
+		const { path } = rendered.field;
+		setPath(this.options.settings, path, clone(getPath(this.options.defaults, path)));
+		this.logger.debug('Setting reset to default', { path });
+		this.requestSave();
+		// Controls don't share an API for setting values - rebuild them all
+		this.renderSections();
+	}
+
+	/**
+	 * Saved value, or the default when the settings leave it out
+	 */
+	private valueAt(path: string): unknown {
+		return getPath(this.options.settings, path) ?? getPath(this.options.defaults, path);
+	}
+
+	private updateResetButton(rendered: RenderedField<S>): void {
+		const { path } = rendered.field;
+		const isDefault = JSON.stringify(this.valueAt(path)) === JSON.stringify(getPath(this.options.defaults, path));
+		rendered.resetEl.toggle(!isDefault);
+	}
+
+	private updateVisibility(): void {
+		const { settings } = this.options;
+		const sectionVisible = (section: SettingsSection<S>) => section.visible?.(settings) ?? true;
+
+		for (const { section, el } of this.headings) {
+			el.toggle(sectionVisible(section));
+		}
+		for (const { field, section, setting } of this.fields) {
+			setting.settingEl.toggle(sectionVisible(section) && (field.visible?.(settings) ?? true));
+		}
+	}
+}
@@ -0,0 +1,152 @@
+import { App } from 'obsidian';
+import { createLogger, LOG_LEVELS, LogLevel, logger, parseTagFilterSpec, TagFilterOptions } from '../utils/Logger';
+import { tagFilterOptions } from './settings';
+import { isPlainObject, oneOf } from './validation';
+
+/**
+ * Logging override file: hand-edited JSON in the plugin folder that changes
+ * logging without touching the saved settings, e.g. when asked by a developer
+ *
+ * ```json
+ * {
+ *   "diagnostic": 30,
+ *   "levels": { "api": "debug" },
+ *   "tagFilters": { "ui": "-rendering" }
+ * }
+ * ```
+ *
+ * Deleting the file goes back to the settings.
+ */
+
+export const LOGGING_OVERRIDE_FILE = 'logging-override.json';
+
+export interface LoggingOverride {
+	levels: Record<string, LogLevel>;
+	tagFilters: Record<string, TagFilterOptions>;   // Written as objects or settings tab text
+	diagnostic?: boolean | number;                  // Diagnostic mode: on, off, or on for this many minutes
+}
+
+export interface ParsedLoggingOverride {
+	override: LoggingOverride;
+	problems: string[];   // Entries that were ignored
+}
+
+const logLevel = oneOf(LOG_LEVELS);
+
+function parseObject(text: string): Record<string, unknown> {
+	let raw: unknown;
+	try {
+		raw = JSON.parse(text);
+	} catch (error) {
+		throw new Error(`Not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+	}
+	if (!isPlainObject(raw)) {
+		throw new Error('The file does not contain an object');
+	}
+	return raw;
+}
+
+/**
+ * Read the override file, skipping invalid entries
+ * Throws when the file isn't a JSON object at all.
+ */
+export function parseLoggingOverride(text: string): ParsedLoggingOverride {
+	const raw = parseObject(text);
+
+	const override: LoggingOverride = { levels: {}, tagFilters: {} };
+	const problems: string[] = [];
+
+	const components = (key: 'levels' | 'tagFilters'): [string, unknown][] => {
+		const value = raw[key];
+		if (value === undefined) return [];
+		if (!isPlainObject(value)) {
+			problems.push(`${key} must be an object`);
+			return [];
+		}
+		return Object.entries(value).filter(([component]) => {
+			if (logger.isRegistered(component)) return true;
+			problems.push(`${key}.${component}: unknown component`);
+			return false;
+		});
+	};
+
+	for (const [component, level] of components('levels')) {
+		const problem = logLevel(level);
+		if (problem) {
+			problems.push(`levels.${component} ${problem}`);
+		} else {
+			override.levels[component] = level as LogLevel;
+		}
+	}
+
+	for (const [component, filter] of components('tagFilters')) {
+		const options = typeof filter === 'string' ? parseTagFilterSpec(filter) : filter;
+		const problem = tagFilterOptions(options);
+		if (problem) {
+			problems.push(`tagFilters.${component} ${problem}`);
+		} else {
+			override.tagFilters[component] = options as TagFilterOptions;
+		}
+	}
+
+	const { diagnostic } = raw;
+	if (typeof diagnostic === 'boolean' || (typeof diagnostic === 'number' && diagnostic > 0)) {
+		override.diagnostic = diagnostic;
+	} else if (diagnostic !== undefined) {
+		problems.push('diagnostic must be true, false or a number of minutes');
+	}
+
+	return { override, problems };
+}
+
+/**
+ * Polls the override file and reports when it appears, changes or goes away
+ * Vault events don't cover the config folder, so the plugin calls `check()`
+ * on an interval; a stat per check is all it costs while nothing changes.
+ */
+export class LoggingOverrideWatcher {
+	private logger = createLogger('settings');
+	private lastModified: number | null = null;   // null = no file
+
+	/**
+	 * @param onChange - Called with the new override, or null when the file is gone or unreadable
+	 */
+	constructor(private app: App, readonly path: string, private onChange: (override: LoggingOverride | null) => void) {}
+
+	/**
+	 * Never throws - a file that can't be read counts as no override
+	 */
+	async check(): Promise<void> {
+		let modified: number | null;
+		try {
+			const stat = await this.app.vault.adapter.stat(this.path);
+			modified = stat?.type === 'file' ? stat.mtime : null;
+		} catch (error) {
+			this.logger.warn('Could not check the logging override', { path: this.path }, error);
+			return;
+		}
+		if (modified === this.lastModified) return;
+		this.lastModified = modified;
+
+		if (modified === null) {
+			this.logger.info('Logging override removed', { path: this.path });
+			this.onChange(null);
+			return;
+		}
+
+		let parsed: ParsedLoggingOverride;
+		try {
+			parsed = parseLoggingOverride(await this.app.vault.adapter.read(this.path));
+		} catch (error) {
+			this.logger.warn('Logging override ignored', { path: this.path }, error);
+			this.onChange(null);
+			return;
+		}
+
+		for (const problem of parsed.problems) {
+			this.logger.warn(`Logging override entry ignored: ${problem}`, { path: this.path });
+		}
+		this.logger.info('Logging override applied', { path: this.path, ...parsed.override });
+		this.onChange(parsed.override);
+	}
+}
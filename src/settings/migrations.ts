@@ -0,0 +1,77 @@
+import { createLogger } from '../utils/Logger';
+import { isPlainObject } from './validation';
+
+/**
+ * Settings schema versions
+ * Bump SETTINGS_VERSION and append a migration whenever stored settings change shape.
+ * Data saved before versioning existed counts as version 0.
+ */
+export const SETTINGS_VERSION = 1;
+
+export type SettingsData = Record<string, unknown>;
+
+export interface Migration {
+	version: number;        // Version of the data after this migration
+	description: string;
+	migrate(data: SettingsData): SettingsData;
+}
+
+export interface MigrationResult {
+	data: SettingsData;
+	fromVersion: number;
+	applied: Migration[];
+}
+
+const log = createLogger('settings');
+
+/**
+ * Ordered by version - each migration receives the output of the previous one
+ */
+export const MIGRATIONS: Migration[] = [
+	{
+		version: 1,
+		description: 'Store tag filters as include/exclude/tag level options instead of a tag list',
+		migrate: data => {
+			const logging = isPlainObject(data.logging) ? data.logging : undefined;
+			if (!logging || !isPlainObject(logging.tagFilters)) return data;
+
+			const tagFilters: Record<string, unknown> = {};
+			for (const [component, filter] of Object.entries(logging.tagFilters)) {
+				tagFilters[component] = Array.isArray(filter) ? { include: filter } : filter;
+			}
+			return { ...data, logging: { ...logging, tagFilters } };
+		}
+	}
+];
+
+/**
+ * Version the data was saved with
+ */
+export function getSettingsVersion(data: SettingsData): number {
+	return typeof data.version === 'number' && Number.isInteger(data.version) && data.version >= 0 ? data.version : 0;
+}
+
+/**
+ * Run every migration newer than the stored version
+ * A failing migration stops the chain; the data keeps the last version that succeeded
+ */
+export function migrateSettings(saved: SettingsData, migrations: Migration[] = MIGRATIONS): MigrationResult {
+	const fromVersion = getSettingsVersion(saved);
+	const applied: Migration[] = [];
+	let data = saved;
+
+	for (const migration of migrations) {
+		if (migration.version <= fromVersion) continue;
+
+		try {
+			data = { ...migration.migrate(data), version: migration.version };
+			applied.push(migration);
+			log.info(`Migrated settings to version ${migration.version}`, { description: migration.description });
+		} catch (error) {
+			log.error(`Settings migration to version ${migration.version} failed`, error);
+			break;
+		}
+	}
+
+	return { data, fromVersion, applied };
+}
@@ -0,0 +1,74 @@
+import { normalizePath, Plugin } from 'obsidian';
+import { createLogger } from '../utils/Logger';
+import { migrateSettings, SETTINGS_VERSION } from './migrations';
+import { DEFAULT_SETTINGS, ExamplePluginSettings, SETTINGS_CHECKS } from './settings';
+import { deepMerge, isPlainObject, validateSettings } from './validation';
+
+/**
+ * Loading settings: migrate, merge with defaults, validate
+ * Rewrites data.json when anything changed, after backing up the previous file
+ */
+
+const log = createLogger('settings');
+
+/**
+ * @param pluginDir - Folder containing data.json
+ */
+export async function loadVersionedSettings(plugin: Plugin, pluginDir: string): Promise<ExamplePluginSettings> {
+	const raw: unknown = await plugin.loadData();
+	if (raw === null || raw === undefined) {
+		log.diagnostic('No saved settings, using defaults');
+		return deepMerge(DEFAULT_SETTINGS, {});
+	}
+
+	if (!isPlainObject(raw)) {
+		log.warn('Saved settings are not an object, using defaults', { type: typeof raw });
+	}
+
+	const { data, fromVersion, applied } = migrateSettings(isPlainObject(raw) ? raw : {});
+	const settings = deepMerge(DEFAULT_SETTINGS, data);
+
+	const repairs = validateSettings(settings, DEFAULT_SETTINGS, SETTINGS_CHECKS);
+	for (const repair of repairs) {
+		log.warn(`Invalid setting "${repair.path}" repaired: ${repair.reason}`, {
+			value: repair.value,
+			repairedTo: repair.repairedTo
+		});
+	}
+
+	if (fromVersion > SETTINGS_VERSION) {
+		// Saved by a newer plugin version - don't overwrite what we can't read
+		log.warn(`Settings were saved by a newer version (${fromVersion} > ${SETTINGS_VERSION}), not rewriting them`);
+		return settings;
+	}
+
+	if (applied.length > 0 || repairs.length > 0 || !isPlainObject(raw)) {
+		const backupPath = await backupDataFile(plugin, pluginDir, fromVersion);
+		if (backupPath === null) {
+			log.error('Could not back up data.json, keeping migrated settings in memory only');
+			return settings;
+		}
+		await plugin.saveData(settings);
+		log.info('Saved updated settings', { fromVersion, toVersion: settings.version, backup: backupPath, repairs: repairs.length });
+	}
+
+	return settings;
+}
+
+/**
+ * Copy data.json to data.v<version>.backup.json next to it
+ * Returns the backup path, or null if the copy failed
+ */
+async function backupDataFile(plugin: Plugin, pluginDir: string, version: number): Promise<string | null> {
+	const adapter = plugin.app.vault.adapter;
+	const dataPath = normalizePath(`${pluginDir}/data.json`);
+	const backupPath = normalizePath(`${pluginDir}/data.v${version}.backup.json`);
+
+	try {
+		await adapter.write(backupPath, await adapter.read(dataPath));
+		return backupPath;
+	} catch (error) {
+		log.error('Failed to back up settings', { dataPath, backupPath }, error);
+		return null;
+	}
+}
@@ -0,0 +1,151 @@
+/**
+ * Declarative settings schema
+ * Describes each option once - `SettingsRenderer` builds the settings tab from it
+ *
+ * Fields are bound to a dotted path into the settings object (`logging.fileLogging`).
+ * The path decides which field types are allowed: a toggle needs a boolean,
+ * a number field a number, a list a string array, and so on.
+ */
+
+type Primitive = string | number | boolean;
+
+/**
+ * Every dotted path into `T`, e.g. `exampleSetting` | `logging` | `logging.levels.${string}`
+ */
+export type SettingPath<T> = {
+	[K in keyof T & string]: T[K] extends Primitive | unknown[]
+		? K
+		: T[K] extends object ? K | `${K}.${SettingPath<T[K]>}` : K
+}[keyof T & string];
+
+/**
+ * Type of the value at `P`
+ */
+export type SettingValue<T, P extends string> =
+	P extends `${infer K}.${infer Rest}`
+		? K extends keyof T ? SettingValue<T[K], Rest> : never
+		: P extends keyof T ? T[P] : never;
+
+/**
+ * Returns a description of the problem, or null when the value is valid
+ * Same signature as the load-time checks in validation.ts, so they can be shared
+ */
+export type FieldValidator<V> = (value: V) => string | null;
+
+interface BaseField<S, P extends SettingPath<S>> {
+	path: P;
+	name: string;
+	desc?: string;
+	visible?: (settings: S) => boolean;   // Hidden while this returns false
+	validate?: FieldValidator<SettingValue<S, P>>;
+}
+
+export interface TextField<S, P extends SettingPath<S>> extends BaseField<S, P> {
+	type: 'text';
+	placeholder?: string;
+	multiline?: boolean;
+	password?: boolean;   // Mask the input, for secrets
+	commitOnBlur?: boolean;   // Apply when the field loses focus or Enter is pressed, not on every keystroke
+}
+
+/**
+ * Text input for a value that isn't a string, e.g. a compact filter syntax
+ * `parse` returning undefined removes the value
+ */
+export interface ParsedTextField<S, P extends SettingPath<S>> extends BaseField<S, P> {
+	type: 'text';
+	placeholder?: string;
+	format: (value: SettingValue<S, P> | undefined) => string;
+	parse: (text: string) => SettingValue<S, P> | undefined;
+}
+
+export interface NumberField<S, P extends SettingPath<S>> extends BaseField<S, P> {
+	type: 'number';
+	min?: number;
+	max?: number;
+	step?: number;        // Default: 1 (whole numbers)
+	slider?: boolean;     // Slider instead of a text input - needs min and max
+}
+
+export interface ToggleField<S, P extends SettingPath<S>> extends BaseField<S, P> {
+	type: 'toggle';
+}
+
+export interface DropdownField<S, P extends SettingPath<S>> extends BaseField<S, P> {
+	type: 'dropdown';
+	options: Record<SettingValue<S, P> & string, string>;   // Value -> label
+}
+
+export interface ColorField<S, P extends SettingPath<S>> extends BaseField<S, P> {
+	type: 'color';
+}
+
+/**
+ * Text input with suggestions from the vault
+ */
+export interface PathField<S, P extends SettingPath<S>> extends BaseField<S, P> {
+	type: 'folder' | 'file';
+	placeholder?: string;
+	extensions?: string[];   // File fields only, e.g. ['md']
+}
+
+export interface ListField<S, P extends SettingPath<S>> extends BaseField<S, P> {
+	type: 'list';
+	placeholder?: string;
+	suggest?: 'folder' | 'file';   // Suggest vault paths when adding items
+}
+
+/**
+ * Optional values get the control for their type - a missing value shows its default
+ */
+type FieldFor<S, P extends SettingPath<S>, V = NonNullable<SettingValue<S, P>>> =
+	[V] extends [boolean] ? ToggleField<S, P>
+	: [V] extends [number] ? NumberField<S, P>
+	: [V] extends [string] ? TextField<S, P> | DropdownField<S, P> | ColorField<S, P> | PathField<S, P>
+	: [V] extends [string[]] ? ListField<S, P>
+	: ParsedTextField<S, P>;
+
+/**
+ * Any field whose type fits the value at its path
+ */
+export type SettingField<S> = { [P in SettingPath<S>]: FieldFor<S, P> }[SettingPath<S>];
+
+export interface SettingsSection<S> {
+	heading?: string;
+	description?: string;
+	fields: SettingField<S>[];
+	visible?: (settings: S) => boolean;
+}
+
+export type SettingsSchema<S> = SettingsSection<S>[];
+
+export function getPath(target: unknown, path: string): unknown {
+	let value = target;
+	for (const key of path.split('.')) {
+		if (typeof value !== 'object' || value === null) return undefined;
+		value = (value as Record<string, unknown>)[key];
+	}
+	return value;
+}
+
+/**
+ * Set a value, creating objects along the path; undefined removes the key
+ */
+export function setPath(target: object, path: string, value: unknown): void {
+	const keys = path.split('.');
+	const last = keys.pop() as string;
+
+	let parent = target as Record<string, unknown>;
+	for (const key of keys) {
+		if (typeof parent[key] !== 'object' || parent[key] === null) {
+			parent[key] = {};
+		}
+		parent = parent[key] as Record<string, unknown>;
+	}
+
+	if (value === undefined) {
+		delete parent[last];
+	} else {
+		parent[last] = value;
+	}
+}
@@ -0,0 +1,127 @@
+import { LOG_LEVELS, LogFileFormat, LogLevel, logger, TagFilterOptions } from '../utils/Logger';
+import { SETTINGS_VERSION } from './migrations';
+import type { ActionPlacements } from '../actions/ActionRegistry';
+import type { SettingPath } from './schema';
+import { booleanValue, FieldCheck, FieldChecks, hexColor, integerAtLeast, isPlainObject, oneOf, stringList, vaultFilePath } from './validation';
+
+// Build-time constant - will be replaced by esbuild
+declare const BUILD_ENV: string;
+
+/**
+ * Logging options persisted with the plugin settings
+ * Applied to the Logger on load and whenever they change in the settings tab
+ * Keyed by plain strings because components can be registered at runtime
+ */
+export interface LoggingSettings {
+	levels: Record<string, LogLevel>;
+	tagFilters: Record<string, TagFilterOptions>;
+	fileLogging: boolean;
+	logFileName: string;
+	logFormat: LogFileFormat;
+	logInPluginFolder: boolean;   // Keep log files in <plugin dir>/logs instead of the vault root
+	maxLogSizeKB: number;         // Rotate the log file at this size
+	maxLogFiles: number;          // Rotated files to keep
+	maxLogAgeDays: number;        // Delete rotated files older than this (0 = keep)
+	redactPaths: boolean;         // Replace the vault and home folder paths with placeholders
+	collapseRepeats: boolean;     // Log identical consecutive messages once with a repeat count
+	rateLimitPerSecond: number;   // Per-component limit for non-error messages (0 = unlimited)
+	showStatusBar: boolean;       // Warning and error counts in the status bar
+}
+
+export interface ExamplePluginSettings {
+	version: number;              // Schema version, see migrations.ts
+	exampleSetting: string;
+	exampleColor: string;         // Hex color, e.g. #7f6df2
+	exampleFolder: string;        // Vault folder ('' = vault root)
+	exampleExcludedFolders: string[];
+	exampleApiKey: string;        // Secret - see SECRET_SETTINGS
+	actions: ActionPlacements;    // Where each action appears, only changed placements
+	features: Record<string, boolean>;   // Runtime feature flags switched in the settings, see feature-flags.mjs
+	logging: LoggingSettings;
+}
+
+/**
+ * Settings left out of exports unless the user asks for them
+ */
+export const SECRET_SETTINGS: SettingPath<ExamplePluginSettings>[] = ['exampleApiKey'];
+
+/**
+ * Development builds default every component to debug,
+ * production builds keep the Logger defaults (warnings and errors only)
+ */
+function defaultLogLevels(): Record<string, LogLevel> {
+	const levels: Record<string, LogLevel> = logger.getConfig();
+	if (typeof BUILD_ENV !== 'undefined' && BUILD_ENV === 'development') {
+		for (const component of logger.getComponentNames()) {
+			levels[component] = 'debug';
+		}
+	}
+	return levels;
+}
+
+export const DEFAULT_SETTINGS: ExamplePluginSettings = {
+	version: SETTINGS_VERSION,
+	exampleSetting: 'default',
+	exampleColor: '#7f6df2',
+	exampleFolder: '',
+	exampleExcludedFolders: [],
+	exampleApiKey: '',
+	actions: { 'command': {}, 'ribbon': {}, 'file-menu': {}, 'editor-menu': {} },
+	features: {},
+	logging: {
+		levels: defaultLogLevels(),
+		tagFilters: {},
+		fileLogging: true,
+		logFileName: 'debug-log.txt',
+		logFormat: 'text',
+		logInPluginFolder: false,
+		maxLogSizeKB: 1024,
+		maxLogFiles: 5,
+		maxLogAgeDays: 0,
+		redactPaths: false,
+		collapseRepeats: true,
+		rateLimitPerSecond: 0,
+		showStatusBar: true
+	}
+};
+
+/**
+ * Also checked in the settings tab, before file logging restarts with a new name
+ */
+export const logFileName: FieldCheck = vaultFilePath(['txt', 'log', 'jsonl']);
+
+/**
+ * Also used for the logging override file, see loggingOverride.ts
+ */
+export const tagFilterOptions: FieldCheck = value => {
+	if (!isPlainObject(value)) return 'must be an object';
+	if (value.include !== undefined && stringList(value.include)) return 'include must be a list of tags';
+	if (value.exclude !== undefined && stringList(value.exclude)) return 'exclude must be a list of tags';
+	if (value.tagLevels !== undefined) {
+		if (!isPlainObject(value.tagLevels)) return 'tagLevels must be an object';
+		if (Object.values(value.tagLevels).some(level => !LOG_LEVELS.includes(level as LogLevel))) {
+			return 'tagLevels must map tags to log levels';
+		}
+	}
+	return null;
+};
+
+/**
+ * Checks applied on load, on top of the type check against DEFAULT_SETTINGS
+ * Invalid values are replaced by their default and logged
+ */
+export const SETTINGS_CHECKS: FieldChecks = {
+	'version': integerAtLeast(0),
+	'exampleColor': hexColor,
+	'exampleExcludedFolders': stringList,
+	'actions.*.*': booleanValue,
+	'features.*': booleanValue,
+	'logging.levels.*': oneOf(LOG_LEVELS),
+	'logging.tagFilters.*': tagFilterOptions,
+	'logging.logFileName': logFileName,
+	'logging.logFormat': oneOf(['text', 'jsonl']),
+	'logging.maxLogSizeKB': integerAtLeast(1),
+	'logging.maxLogFiles': integerAtLeast(0),
+	'logging.maxLogAgeDays': integerAtLeast(0),
+	'logging.rateLimitPerSecond': integerAtLeast(0)
+};
@@ -0,0 +1,101 @@
+import { ACTION_SURFACES, ActionRegistry, SUPPORTED_SURFACES } from '../actions/ActionRegistry';
+import { FeatureFlags } from '../features/featureFlags';
+import { formatTagFilterSpec, LOG_LEVELS, logger, LogLevel, parseTagFilterSpec } from '../utils/Logger';
+import { SettingField, SettingsSchema } from './schema';
+import { ExamplePluginSettings, logFileName } from './settings';
+
+type Settings = ExamplePluginSettings;
+
+const LEVEL_OPTIONS = LOG_LEVELS.reduce((options, level) => {
+	options[level] = level;
+	return options;
+}, {} as Record<LogLevel, string>);
+
+const fileLoggingOn = (settings: Settings) => settings.logging.fileLogging;
+
+/**
+ * Settings tab layout
+ * Built on each display so components and actions registered at runtime get their own rows
+ */
+export function buildSettingsSchema(actions: ActionRegistry, features: FeatureFlags): SettingsSchema<Settings> {
+	const components = logger.getComponentNames();
+
+	return [
+		{
+			fields: [
+				{ type: 'text', path: 'exampleSetting', name: 'Example Setting', desc: 'This is an example setting', placeholder: 'Enter your setting' },
+				{ type: 'color', path: 'exampleColor', name: 'Example color', desc: 'Accent color used by the example views' },
+				{ type: 'folder', path: 'exampleFolder', name: 'Example folder', desc: 'Folder the example commands work in. Leave empty for the vault root.', placeholder: '/' },
+				{ type: 'list', path: 'exampleExcludedFolders', name: 'Excluded folders', desc: 'Folders the example commands skip', placeholder: 'Add a folder', suggest: 'folder' },
+				{ type: 'text', path: 'exampleApiKey', name: 'Example API key', desc: 'Stored in data.json. Left out of settings exports unless you include secrets.', placeholder: 'Not set', password: true }
+			]
+		},
+		{
+			heading: 'Actions',
+			description: 'Where each action appears. Commands switched off are hidden from the command palette.',
+			fields: actions.getActions().flatMap(action => SUPPORTED_SURFACES[action.kind].map((surface): SettingField<Settings> => ({
+				type: 'toggle',
+				path: `actions.${surface}.${action.id}` as const,
+				name: action.name,
+				desc: `Show in the ${ACTION_SURFACES[surface].toLowerCase()}`
+			})))
+		},
+		{
+			heading: 'Experimental',
+			description: 'Features still being tried out. They may change or go away in a later version.',
+			fields: features.getStates().filter(flag => flag.runtime).map((flag): SettingField<Settings> => ({
+				type: 'toggle',
+				path: `features.${flag.name}` as const,
+				name: flag.description,
+				desc: `Feature flag "${flag.name}"`
+			}))
+		},
+		{
+			heading: 'Logging',
+			fields: [
+				{ type: 'toggle', path: 'logging.showStatusBar', name: 'Show status bar indicator', desc: 'Warnings and errors logged this session, with quick logging controls on click' },
+				{ type: 'toggle', path: 'logging.fileLogging', name: 'Write log to file', desc: 'Append log entries to a file in the vault for troubleshooting' },
+				{ type: 'text', path: 'logging.logFileName', name: 'Log file name', desc: 'Path of the log file, relative to the vault root, ending in .txt, .log or .jsonl. Applied when you leave the field or press Enter.', placeholder: 'debug-log.txt', validate: logFileName, commitOnBlur: true, visible: fileLoggingOn },
+				{
+					type: 'dropdown', path: 'logging.logFormat', name: 'Log file format',
+					desc: 'JSON Lines writes one JSON object per entry, for use with log analysis tools',
+					options: { text: 'Text', jsonl: 'JSON Lines' },
+					visible: fileLoggingOn
+				},
+				{ type: 'toggle', path: 'logging.logInPluginFolder', name: 'Store logs in plugin folder', desc: 'Write log files to the logs folder inside the plugin directory instead of the vault root', visible: fileLoggingOn },
+				{ type: 'number', path: 'logging.maxLogSizeKB', name: 'Maximum log size (KB)', desc: 'Rotate the log file when it grows past this size', min: 1, visible: fileLoggingOn },
+				{ type: 'number', path: 'logging.maxLogFiles', name: 'Rotated files to keep', desc: 'Older log files are numbered debug-log.1.txt, debug-log.2.txt, ...', min: 0, visible: fileLoggingOn },
+				{ type: 'number', path: 'logging.maxLogAgeDays', name: 'Delete logs older than (days)', desc: 'Rotated files older than this are deleted. 0 keeps them.', min: 0, visible: fileLoggingOn },
+				{ type: 'toggle', path: 'logging.redactPaths', name: 'Hide file system paths', desc: 'Replace the vault and home folder paths in log output with <vault> and <home>. Tokens, passwords and email addresses are always masked.' },
+				{ type: 'toggle', path: 'logging.collapseRepeats', name: 'Collapse repeated messages', desc: 'Log identical consecutive messages once, followed by "repeated N times"' },
+				{ type: 'number', path: 'logging.rateLimitPerSecond', name: 'Rate limit (messages per second)', desc: 'Per component. Messages over the limit are dropped and counted; errors are always logged. 0 turns the limit off.', min: 0 }
+			]
+		},
+		{
+			heading: 'Log levels',
+			description: 'Minimum level logged by each component',
+			fields: components.map((component): SettingField<Settings> => ({
+				type: 'dropdown',
+				path: `logging.levels.${component}` as const,
+				name: component,
+				desc: logger.getComponentOptions(component)?.description,
+				options: LEVEL_OPTIONS
+			}))
+		},
+		{
+			heading: 'Tag filters',
+			description: '"tag" to include, "-tag" to exclude, "tag=level" for a tag level. Wildcards: "sync:*". Separate entries with commas.',
+			fields: components.map((component): SettingField<Settings> => ({
+				type: 'text',
+				path: `logging.tagFilters.${component}` as const,
+				name: component,
+				placeholder: 'All tags',
+				format: formatTagFilterSpec,
+				parse: text => {
+					const filter = parseTagFilterSpec(text);
+					return formatTagFilterSpec(filter) ? filter : undefined;
+				}
+			}))
+		}
+	];
+}
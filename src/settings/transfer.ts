@@ -0,0 +1,104 @@
+import { migrateSettings, SETTINGS_VERSION } from './migrations';
+import { setPath } from './schema';
+import { DEFAULT_SETTINGS, ExamplePluginSettings, SECRET_SETTINGS, SETTINGS_CHECKS } from './settings';
+import { deepMerge, isPlainObject, SettingsRepair, validateSettings } from './validation';
+
+/**
+ * Settings export, import and reset
+ * Pure functions - main.ts runs the commands and asks for confirmation with SettingsChangesModal
+ */
+
+export const SETTINGS_EXPORT_FILE = 'example-plugin-settings.json';
+
+export interface SettingsChange {
+	path: string;
+	before: unknown;      // undefined = not set
+	after: unknown;       // undefined = removed
+	secret: boolean;      // Don't show the values
+}
+
+export interface SettingsImport {
+	settings: ExamplePluginSettings;
+	changes: SettingsChange[];
+	repairs: SettingsRepair[];   // Invalid values in the file, replaced by defaults
+}
+
+function isSecret(path: string): boolean {
+	return SECRET_SETTINGS.some(secret => path === secret || path.startsWith(`${secret}.`));
+}
+
+/**
+ * Settings as JSON, without SECRET_SETTINGS unless `includeSecrets` is set
+ */
+export function exportSettings(settings: ExamplePluginSettings, includeSecrets: boolean): string {
+	const data = deepMerge(settings, {});
+	if (!includeSecrets) {
+		for (const path of SECRET_SETTINGS) {
+			setPath(data, path, undefined);
+		}
+	}
+	return JSON.stringify(data, null, 2);
+}
+
+/**
+ * Read an exported file and lay it over the current settings
+ * Keys missing from the file (such as skipped secrets) keep their current value;
+ * top-level keys that aren't settings are dropped, so they never reach data.json.
+ * Throws when the file can't be used at all, including JSON that isn't an export.
+ */
+export function parseSettingsImport(text: string, current: ExamplePluginSettings): SettingsImport {
+	let raw: unknown;
+	try {
+		raw = JSON.parse(text);
+	} catch (error) {
+		throw new Error(`Not a valid JSON file: ${error instanceof Error ? error.message : String(error)}`);
+	}
+	if (!isPlainObject(raw)) {
+		throw new Error('The file does not contain a settings object');
+	}
+
+	// Exports carry `version`; settings may also come wrapped in a `settings` object
+	const exported = !('version' in raw) && isPlainObject(raw.settings) ? raw.settings : raw;
+	if (!('version' in exported)) {
+		throw new Error('The file is not a settings export (no "version" or "settings" key)');
+	}
+
+	const { data, fromVersion } = migrateSettings(exported);
+	if (fromVersion > SETTINGS_VERSION) {
+		throw new Error(`The file was exported by a newer version of the plugin (settings version ${fromVersion})`);
+	}
+
+	const known: Record<string, unknown> = {};
+	for (const key of Object.keys(data)) {
+		if (key in DEFAULT_SETTINGS) known[key] = data[key];
+	}
+
+	const settings = deepMerge(current, known);
+	const repairs = validateSettings(settings, DEFAULT_SETTINGS, SETTINGS_CHECKS);
+	return { settings, changes: diffSettings(current, settings), repairs };
+}
+
+/**
+ * A fresh copy of DEFAULT_SETTINGS and what resetting would change
+ */
+export function prepareSettingsReset(current: ExamplePluginSettings): { settings: ExamplePluginSettings; changes: SettingsChange[] } {
+	const settings = deepMerge(DEFAULT_SETTINGS, {});
+	return { settings, changes: diffSettings(current, settings) };
+}
+
+/**
+ * Changed values by dotted path; objects are compared key by key, arrays as a whole
+ */
+export function diffSettings(before: unknown, after: unknown, path = ''): SettingsChange[] {
+	if (isPlainObject(before) && isPlainObject(after)) {
+		const keys = Object.keys(before).concat(Object.keys(after).filter(key => !(key in before)));
+		const changes: SettingsChange[] = [];
+		for (const key of keys) {
+			changes.push(...diffSettings(before[key], after[key], path ? `${path}.${key}` : key));
+		}
+		return changes;
+	}
+
+	if (JSON.stringify(before) === JSON.stringify(after)) return [];
+	return [{ path, before, after, secret: isSecret(path) }];
+}
@@ -0,0 +1,166 @@
+/**
+ * Deep merging with defaults and per-field validation for stored settings
+ */
+
+/**
+ * Returns a description of the problem, or null when the value is valid
+ */
+export type FieldCheck = (value: unknown) => string | null;
+
+/**
+ * Checks keyed by dotted path; `*` matches any key (e.g. `logging.levels.*`)
+ */
+export type FieldChecks = Record<string, FieldCheck>;
+
+export interface SettingsRepair {
+	path: string;
+	value: unknown;       // Value found in the stored settings
+	reason: string;
+	repairedTo: unknown;  // Default that replaced it (undefined = removed)
+}
+
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+	if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+	const proto = Object.getPrototypeOf(value);
+	return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Deep copy of plain objects and arrays - other values are shared
+ */
+export function clone<T>(value: T): T {
+	if (Array.isArray(value)) return value.map(item => clone(item)) as unknown as T;
+	if (isPlainObject(value)) {
+		const copy: Record<string, unknown> = {};
+		for (const [key, item] of Object.entries(value)) copy[key] = clone(item);
+		return copy as T;
+	}
+	return value;
+}
+
+/**
+ * Defaults with the saved values laid over them, at every level of nesting
+ * Saved keys without a default are kept, so settings from newer versions survive
+ */
+export function deepMerge<T>(defaults: T, saved: unknown): T {
+	if (!isPlainObject(defaults) || !isPlainObject(saved)) {
+		return clone(saved === undefined ? defaults : saved as T);
+	}
+
+	const merged: Record<string, unknown> = clone(defaults);
+	for (const [key, value] of Object.entries(saved)) {
+		merged[key] = key in merged ? deepMerge(merged[key], value) : clone(value);
+	}
+	return merged as T;
+}
+
+function findCheck(checks: FieldChecks, path: string): FieldCheck | undefined {
+	if (checks[path]) return checks[path];
+
+	const parts = path.split('.');
+	for (const [pattern, check] of Object.entries(checks)) {
+		const patternParts = pattern.split('.');
+		if (patternParts.length === parts.length
+			&& patternParts.every((part, index) => part === '*' || part === parts[index])) {
+			return check;
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Repair `settings` in place and report every change
+ * - Values whose type differs from the default are replaced by the default
+ * - Values failing their check are replaced by the default, or removed when there is none
+ */
+export function validateSettings<T>(settings: T, defaults: T, checks: FieldChecks): SettingsRepair[] {
+	const repairs: SettingsRepair[] = [];
+
+	const walk = (target: Record<string, unknown>, defaultObject: Record<string, unknown> | undefined, path: string): void => {
+		for (const key of Object.keys(target)) {
+			const fieldPath = path ? `${path}.${key}` : key;
+			const value = target[key];
+			const fallback = defaultObject && Object.prototype.hasOwnProperty.call(defaultObject, key)
+				? defaultObject[key]
+				: undefined;
+
+			const repair = (reason: string): void => {
+				const repairedTo = clone(fallback);
+				repairs.push({ path: fieldPath, value, reason, repairedTo });
+				if (repairedTo === undefined) {
+					delete target[key];
+				} else {
+					target[key] = repairedTo;
+				}
+			};
+
+			if (fallback !== undefined && typeOf(value) !== typeOf(fallback)) {
+				repair(`expected ${typeOf(fallback)}, found ${typeOf(value)}`);
+				continue;
+			}
+
+			const problem = findCheck(checks, fieldPath)?.(value);
+			if (problem) {
+				repair(problem);
+				continue;
+			}
+
+			if (isPlainObject(value)) {
+				walk(value, isPlainObject(fallback) ? fallback : undefined, fieldPath);
+			}
+		}
+	};
+
+	if (isPlainObject(settings)) {
+		walk(settings, isPlainObject(defaults) ? defaults : undefined, '');
+	}
+	return repairs;
+}
+
+function typeOf(value: unknown): string {
+	if (value === null) return 'null';
+	if (Array.isArray(value)) return 'array';
+	return typeof value;
+}
+
+// Checks for common field types
+
+export function oneOf(values: readonly string[]): FieldCheck {
+	return value => values.includes(value as string) ? null : `must be one of ${values.join(', ')}`;
+}
+
+export function integerAtLeast(min: number): FieldCheck {
+	return value => typeof value === 'number' && Number.isInteger(value) && value >= min
+		? null
+		: `must be a whole number of at least ${min}`;
+}
+
+export const booleanValue: FieldCheck = value =>
+	typeof value === 'boolean' ? null : 'must be true or false';
+
+export const nonEmptyString: FieldCheck = value =>
+	typeof value === 'string' && value.trim().length > 0 ? null : 'must not be empty';
+
+const INVALID_PATH_CHARACTERS = /[\\:*?"<>|]/;
+
+/**
+ * Vault-relative path of a file ending in one of `extensions`, e.g. `logs/debug-log.txt`
+ */
+export function vaultFilePath(extensions: readonly string[]): FieldCheck {
+	return value => {
+		if (typeof value !== 'string' || value.trim().length === 0) return 'must not be empty';
+		if (value.startsWith('/') || value.endsWith('/')) return 'must be a file path relative to the vault root';
+		if (value.split('/').some(part => part.trim() === '' || part === '.' || part === '..')) return 'must not contain empty, "." or ".." folder names';
+		if (INVALID_PATH_CHARACTERS.test(value)) return 'must not contain \\ : * ? " < > |';
+		if (!extensions.some(extension => value.toLowerCase().endsWith(`.${extension}`))) {
+			return `must end in ${extensions.map(extension => `.${extension}`).join(', ')}`;
+		}
+		return null;
+	};
+}
+
+export const stringList: FieldCheck = value =>
+	Array.isArray(value) && value.every(item => typeof item === 'string') ? null : 'must be a list of strings';
+
+export const hexColor: FieldCheck = value =>
+	typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value) ? null : 'must be a color like #7f6df2';
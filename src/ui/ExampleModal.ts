@@ -1,30 +1,45 @@
-import { App, Modal } from 'obsidian';
-import { createLogger } from '../utils/Logger';
-
-export class ExampleModal extends Modal {
-	private logger = createLogger('modal');
+import { App, Notice } from 'obsidian';
+import { BaseModal } from './modals/BaseModal';
+import { choose } from './modals/ChooseModal';
+import { confirm } from './modals/ConfirmModal';
+import { FormModal } from './modals/FormModal';
+import { prompt } from './modals/PromptModal';
 
+/**
+ * Template modal - shows off the dialogs in ./modals
+ */
+export class ExampleModal extends BaseModal<void> {
 	constructor(app: App) {
-		super(app);
-		this.logger.debug('Example modal created');
+		super(app, 'example');
+		this.logger.debug('Created');
 	}
 
-	onOpen() {
-		const { contentEl } = this;
-		contentEl.addClass('example-modal');
-		
-		this.logger.debug('Opening modal');
-		
-		contentEl.createEl('h2', { text: 'Example Modal' });
-		
+	protected render(contentEl: HTMLElement): void {
+		this.setTitle('Example Modal');
+
 		const content = contentEl.createDiv({ cls: 'example-modal-content' });
 		content.createEl('p', { text: 'This is an example modal from the template.' });
-		content.createEl('p', { text: 'You can customize this modal for your plugin needs.' });
+		content.createEl('p', { text: 'Try the ready-made dialogs - each one resolves with the answer, or nothing when cancelled.' });
+
+		this.renderButtons(contentEl, [
+			{ text: 'Confirm', onClick: () => void this.showAnswer(confirm(this.app, { title: 'Delete everything?', message: 'This is only a demo.', confirmText: 'Delete', warning: true })) },
+			{ text: 'Prompt', onClick: () => void this.showAnswer(prompt(this.app, { title: 'Your name', placeholder: 'Name' })) },
+			{ text: 'Choose', onClick: () => void this.showAnswer(choose(this.app, { items: ['Apple', 'Banana', 'Cherry'], getText: fruit => fruit, placeholder: 'Pick a fruit' })) },
+			{ text: 'Form', onClick: () => void this.showAnswer(new FormModal(this.app, 'New project')
+				.addText('name', 'Name', { required: true })
+				.addNumber('priority', 'Priority', { min: 1, max: 5, value: 3 })
+				.addToggle('pinned', 'Pin to sidebar')
+				.openAndWait()) },
+			{ text: 'Close', cta: true, onClick: () => this.submit() }
+		]);
+	}
+
+	protected submit(): void {
+		this.finish();
 	}
 
-	onClose() {
-		const { contentEl } = this;
-		contentEl.empty();
-		this.logger.debug('Modal closed');
+	private async showAnswer(answer: Promise<unknown>): Promise<void> {
+		const value = await answer;
+		new Notice(value === null ? 'Cancelled' : `Answer: ${JSON.stringify(value)}`);
 	}
 }
@@ -0,0 +1,74 @@
+import { formatContext, LogEntry, LogLevel, LOG_LEVELS, safeStringify } from '../../utils/Logger';
+
+/**
+ * Filters applied by the log viewer
+ */
+export interface LogEntryFilter {
+	component: string | null;   // null = all components
+	minLevel: LogLevel;
+	tag: string;                // Empty = any tag
+	search: string;             // Case-insensitive text in message, span, context fields or arguments
+}
+
+export const EMPTY_FILTER: LogEntryFilter = {
+	component: null,
+	minLevel: 'debug',
+	tag: '',
+	search: ''
+};
+
+export function matchesFilter(entry: LogEntry, filter: LogEntryFilter): boolean {
+	if (filter.component && entry.component !== filter.component) return false;
+	if (LOG_LEVELS.indexOf(entry.level) < LOG_LEVELS.indexOf(filter.minLevel)) return false;
+	if (filter.tag && !(entry.tags ?? []).includes(filter.tag)) return false;
+
+	if (filter.search) {
+		const needle = filter.search.toLowerCase();
+		let haystack = entry.correlationId ? `${entry.message} ${entry.correlationId} ${entry.span ?? ''}` : entry.message;
+		if (entry.context) haystack += ` ${formatContext(entry.context)}`;
+		if (entry.args.length > 0) haystack += ` ${safeStringify(entry.args)}`;
+		if (!haystack.toLowerCase().includes(needle)) return false;
+	}
+
+	return true;
+}
+
+/**
+ * Render one entry: time, level, component, tags, span, message, context fields and
+ * a collapsible block with the structured arguments
+ */
+export function renderLogEntry(containerEl: HTMLElement, entry: LogEntry): HTMLElement {
+	const rowEl = containerEl.createDiv({ cls: ['example-log-entry', `example-log-level-${entry.level}`] });
+
+	const headerEl = rowEl.createDiv({ cls: 'example-log-entry-header' });
+	headerEl.createSpan({ cls: 'example-log-entry-time', text: new Date(entry.timestamp).toLocaleTimeString() });
+	headerEl.createSpan({ cls: 'example-log-entry-level', text: entry.level.toUpperCase() });
+	headerEl.createSpan({ cls: 'example-log-entry-component', text: entry.component });
+	for (const tag of entry.tags ?? []) {
+		headerEl.createSpan({ cls: 'example-log-entry-tag', text: tag });
+	}
+	if (entry.correlationId) {
+		headerEl.createSpan({
+			cls: 'example-log-entry-span',
+			text: entry.span ?? entry.correlationId,
+			attr: { title: `Correlation ID: ${entry.correlationId}` }
+		});
+	}
+	headerEl.createSpan({ cls: 'example-log-entry-message', text: entry.message });
+	if (entry.context) {
+		headerEl.createSpan({ cls: 'example-log-entry-context', text: formatContext(entry.context) });
+	}
+
+	if (entry.args.length > 0) {
+		const detailsEl = rowEl.createEl('details', { cls: 'example-log-entry-args' });
+		detailsEl.createEl('summary', { text: `${entry.args.length} argument${entry.args.length === 1 ? '' : 's'}` });
+		// Serialize lazily - most entries are never expanded
+		detailsEl.addEventListener('toggle', () => {
+			if (detailsEl.open && !detailsEl.querySelector('pre')) {
+				detailsEl.createEl('pre', { text: safeStringify(entry.args, 2) });
+			}
+		});
+	}
+
+	return rowEl;
+}
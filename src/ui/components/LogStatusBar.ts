@@ -0,0 +1,154 @@
+import { Component, Menu, Notice, setIcon } from 'obsidian';
+import type ExamplePlugin from '../../main';
+import { DiagnosticModeState, LevelCounts, LOG_LEVELS, logger, LogLevel } from '../../utils/Logger';
+
+interface StatusCount {
+	countEl: HTMLElement;
+	numberEl: HTMLElement;
+}
+
+function plural(count: number, word: string): string {
+	return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Status bar item with the warnings and errors logged this session
+ * Clicking it opens a menu with quick logging controls. Level and file logging
+ * changes go through the plugin settings, so they are saved like any other edit.
+ * An extra icon shows while diagnostic mode is on.
+ */
+export class LogStatusBar extends Component {
+	private warningCount: StatusCount;
+	private errorCount: StatusCount;
+	private diagnosticEl: HTMLElement;
+	private shown: { warn: number; error: number } | null = null;
+
+	constructor(private plugin: ExamplePlugin, private statusBarEl: HTMLElement) {
+		super();
+		statusBarEl.addClass('mod-clickable', 'example-status-bar');
+		statusBarEl.setAttr('data-tooltip-position', 'top');
+		this.warningCount = this.createCount('alert-triangle', 'example-status-bar-warnings');
+		this.errorCount = this.createCount('x-circle', 'example-status-bar-errors');
+		this.diagnosticEl = statusBarEl.createSpan({ cls: ['example-status-bar-icon', 'example-status-bar-diagnostic'] });
+		setIcon(this.diagnosticEl, 'activity');
+	}
+
+	onload(): void {
+		this.render(logger.getLevelCounts());
+		this.register(logger.onLevelCountsChanged(counts => this.render(counts)));
+		this.renderDiagnosticMode(logger.getDiagnosticMode());
+		this.register(this.plugin.events.on('diagnostic-mode-changed', state => this.renderDiagnosticMode(state)));
+		this.setVisible(this.plugin.settings.logging.showStatusBar);
+		this.register(this.plugin.events.on('settings-changed', ({ settings }) => this.setVisible(settings.logging.showStatusBar)));
+		this.registerDomEvent(this.statusBarEl, 'click', this.plugin.errors.wrap('ui', 'Status bar menu', (evt: MouseEvent) => this.showMenu(evt)));
+	}
+
+	setVisible(visible: boolean): void {
+		this.statusBarEl.toggle(visible);
+	}
+
+	private createCount(icon: string, cls: string): StatusCount {
+		const countEl = this.statusBarEl.createSpan({ cls: ['example-status-bar-count', cls] });
+		setIcon(countEl.createSpan({ cls: 'example-status-bar-icon' }), icon);
+		return { countEl, numberEl: countEl.createSpan({ cls: 'example-status-bar-number' }) };
+	}
+
+	/**
+	 * Runs inside logging calls - must not log
+	 */
+	private render(counts: LevelCounts): void {
+		if (this.shown && this.shown.warn === counts.warn && this.shown.error === counts.error) return;
+		this.shown = { warn: counts.warn, error: counts.error };
+
+		this.renderCount(this.warningCount, counts.warn);
+		this.renderCount(this.errorCount, counts.error);
+		this.statusBarEl.setAttr('aria-label', `${plural(counts.warn, 'warning')} and ${plural(counts.error, 'error')} logged this session`);
+	}
+
+	private renderCount({ countEl, numberEl }: StatusCount, count: number): void {
+		numberEl.setText(String(count));
+		countEl.toggleClass('has-entries', count > 0);
+	}
+
+	private renderDiagnosticMode({ active, until }: DiagnosticModeState): void {
+		this.diagnosticEl.toggle(active);
+		this.diagnosticEl.setAttr('aria-label', until
+			? `Diagnostic mode on until ${new Date(until).toLocaleTimeString()}`
+			: 'Diagnostic mode on for this session');
+	}
+
+	private showMenu(evt: MouseEvent): void {
+		const counts = logger.getLevelCounts();
+		const levels = Object.values(logger.getConfig());
+		const { fileLogging } = this.plugin.settings.logging;
+		const diagnostic = logger.getDiagnosticMode().active;
+		const action = (label: string, callback: () => unknown) => this.plugin.errors.wrap('ui', label, callback);
+
+		new Menu()
+			.addItem(item => item
+				.setTitle(`${plural(counts.warn, 'warning')}, ${plural(counts.error, 'error')} this session`)
+				.setIsLabel(true))
+			.addSeparator()
+			.addItem(item => item
+				.setTitle('Log more detail')
+				.setIcon('chevrons-down')
+				.setDisabled(levels.every(level => level === LOG_LEVELS[0]))
+				.onClick(action('Lower log level', () => this.shiftLevels(-1))))
+			.addItem(item => item
+				.setTitle('Log less detail')
+				.setIcon('chevrons-up')
+				.setDisabled(levels.every(level => level === LOG_LEVELS[LOG_LEVELS.length - 1]))
+				.onClick(action('Raise log level', () => this.shiftLevels(1))))
+			.addSeparator()
+			.addItem(item => item
+				.setTitle('Write log to file')
+				.setIcon('file-text')
+				.setChecked(fileLogging)
+				.onClick(action('Toggle file logging', () => this.setFileLogging(!fileLogging))))
+			.addItem(item => item
+				.setTitle('Flush log file')
+				.setIcon('save')
+				.setDisabled(!logger.isFileLoggingEnabled())
+				.onClick(action('Flush log file', () => this.flush())))
+			.addItem(item => item
+				.setTitle('Diagnostic mode')
+				.setIcon('activity')
+				.setChecked(diagnostic)
+				.onClick(action('Toggle diagnostic mode', () => diagnostic ? this.plugin.stopDiagnosticMode() : this.plugin.startDiagnosticMode())))
+			.addSeparator()
+			.addItem(item => item
+				.setTitle('Reset counters')
+				.setIcon('rotate-ccw')
+				.onClick(() => logger.resetLevelCounts()))
+			.showAtMouseEvent(evt);
+	}
+
+	/**
+	 * Move every component one level towards debug (-1) or error (1)
+	 */
+	private async shiftLevels(step: -1 | 1): Promise<void> {
+		const { levels } = this.plugin.settings.logging;
+		const config = logger.getConfig();
+		for (const component of logger.getComponentNames()) {
+			const index = LOG_LEVELS.indexOf(config[component]) + step;
+			levels[component] = LOG_LEVELS[Math.min(LOG_LEVELS.length - 1, Math.max(0, index))];
+		}
+		await this.plugin.saveSettings();
+
+		const distinct = Array.from(new Set(Object.values(logger.getConfig()))) as LogLevel[];
+		new Notice(distinct.length === 1
+			? `Logging at ${distinct[0]} level`
+			: `Log levels ${step < 0 ? 'lowered' : 'raised'}: ${distinct.join(', ')}`);
+	}
+
+	private async setFileLogging(enabled: boolean): Promise<void> {
+		this.plugin.settings.logging.fileLogging = enabled;
+		await this.plugin.saveSettings();
+		new Notice(enabled ? 'Writing log to file' : 'File logging off');
+	}
+
+	private async flush(): Promise<void> {
+		await logger.flush();
+		new Notice('Log file flushed');
+	}
+}
@@ -0,0 +1,34 @@
+import { AbstractInputSuggest, App, TAbstractFile, TFolder } from 'obsidian';
+
+/**
+ * Suggests vault folders or files while typing in a text input
+ */
+export class PathSuggest extends AbstractInputSuggest<TAbstractFile> {
+	private inputEl: HTMLInputElement;
+
+	constructor(app: App, inputEl: HTMLInputElement, private kind: 'folder' | 'file', private extensions: string[] = []) {
+		super(app, inputEl);
+		this.inputEl = inputEl;
+	}
+
+	protected getSuggestions(query: string): TAbstractFile[] {
+		const needle = query.toLowerCase();
+		const candidates: TAbstractFile[] = this.kind === 'folder'
+			? this.app.vault.getAllFolders()
+			: this.app.vault.getFiles().filter(file =>
+				this.extensions.length === 0 || this.extensions.includes(file.extension));
+
+		return candidates.filter(item => item.path.toLowerCase().includes(needle));
+	}
+
+	renderSuggestion(item: TAbstractFile, el: HTMLElement): void {
+		el.setText(item instanceof TFolder && item.isRoot() ? '/' : item.path);
+	}
+
+	selectSuggestion(item: TAbstractFile): void {
+		this.setValue(item instanceof TFolder && item.isRoot() ? '/' : item.path);
+		// Let the text component's onChange see the new value
+		this.inputEl.dispatchEvent(new Event('input'));
+		this.close();
+	}
+}
@@ -0,0 +1,133 @@
+import { App, ButtonComponent, Modal, Setting } from 'obsidian';
+import { ComponentLogger, createLogger } from '../../utils/Logger';
+
+export interface ModalButton {
+	text: string;
+	cta?: boolean;        // Highlighted as the main action
+	warning?: boolean;    // Styled as destructive
+	onClick: () => void;
+}
+
+// Controls that act on Enter themselves, and textareas where it starts a new line
+const ENTER_TARGET_TAGS = ['BUTTON', 'A', 'SELECT', 'TEXTAREA'];
+const ENTER_TARGET_INPUT_TYPES = ['button', 'submit', 'reset'];
+
+/**
+ * Whether plain Enter belongs to the focused element instead of submitting,
+ * e.g. a focused Cancel button must cancel
+ */
+function handlesEnter(target: EventTarget | null): boolean {
+	const el = target as HTMLElement | null;
+	if (!el?.tagName) return false;
+	if (ENTER_TARGET_TAGS.includes(el.tagName)) return true;
+	if (el.tagName === 'INPUT' && ENTER_TARGET_INPUT_TYPES.includes((el as HTMLInputElement).type)) return true;
+	return el.getAttribute?.('role') === 'button';
+}
+
+/**
+ * Modal that answers a question
+ * `openAndWait()` resolves with the answer passed to `finish()`, or null when the
+ * modal is closed any other way (Escape, the close button, clicking outside).
+ * Enter calls `submit()`, except on buttons and in multi-line inputs, where Mod+Enter does.
+ */
+export abstract class BaseModal<T> extends Modal {
+	protected logger: ComponentLogger;
+	private resolveAnswer: ((answer: T | null) => void) | null = null;
+	private answer: { value: T } | null = null;
+
+	/**
+	 * @param name - Added to every log entry from this modal
+	 */
+	constructor(app: App, name: string) {
+		super(app);
+		this.logger = createLogger('modal').child({ modal: name });
+
+		// Registered once - the scope outlives each open
+		this.scope.register([], 'Enter', event => {
+			if (event.isComposing || handlesEnter(event.target)) return;
+			event.preventDefault();
+			this.submit();
+			return false;
+		});
+		this.scope.register(['Mod'], 'Enter', event => {
+			event.preventDefault();
+			this.submit();
+			return false;
+		});
+	}
+
+	/**
+	 * Open the modal and wait for the answer
+	 * A modal opened again starts without the previous answer
+	 */
+	openAndWait(): Promise<T | null> {
+		return new Promise(resolve => {
+			this.answer = null;
+			this.resolveAnswer = resolve;
+			this.open();
+		});
+	}
+
+	onOpen() {
+		this.contentEl.addClass('example-modal');
+		this.logger.debug('Opening');
+		this.render(this.contentEl);
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		this.logger.debug(this.answer ? 'Answered' : 'Cancelled');
+		this.resolveAnswer?.(this.answer ? this.answer.value : null);
+		this.resolveAnswer = null;
+	}
+
+	/**
+	 * Build the modal content; called on every open
+	 */
+	protected abstract render(contentEl: HTMLElement): void;
+
+	/**
+	 * Validate and `finish()` - called by Enter and usually the main button
+	 * Leave the modal open to let the user correct invalid input
+	 */
+	protected abstract submit(): void;
+
+	/**
+	 * Close with an answer
+	 */
+	protected finish(value: T): void {
+		this.answer = { value };
+		this.close();
+	}
+
+	protected renderMessage(contentEl: HTMLElement, message: string | undefined): void {
+		if (message) {
+			contentEl.createEl('p', { cls: 'example-modal-message', text: message });
+		}
+	}
+
+	/**
+	 * Row of buttons in the bottom right corner
+	 */
+	protected renderButtons(contentEl: HTMLElement, buttons: ModalButton[]): ButtonComponent[] {
+		const setting = new Setting(contentEl).setClass('example-modal-buttons');
+		const components: ButtonComponent[] = [];
+		for (const button of buttons) {
+			setting.addButton(component => {
+				component.setButtonText(button.text).onClick(button.onClick);
+				if (button.cta) component.setCta();
+				if (button.warning) component.setWarning();
+				components.push(component);
+			});
+		}
+		return components;
+	}
+
+	/**
+	 * Show or clear a validation message
+	 */
+	protected setError(errorEl: HTMLElement, message: string | null): void {
+		errorEl.setText(message ?? '');
+		errorEl.toggle(message !== null);
+	}
+}
@@ -0,0 +1,107 @@
+import { App, FuzzyMatch, FuzzySuggestModal, SuggestModal } from 'obsidian';
+import { createLogger } from '../../utils/Logger';
+
+export interface ChooseOptions<T> {
+	items: T[];
+	getText: (item: T) => string;   // Shown in the list and matched against the query
+	placeholder?: string;
+	emptyText?: string;             // Shown when nothing matches
+	fuzzy?: boolean;                // Fuzzy matching (default) or plain substring matching
+}
+
+const logger = createLogger('modal').child({ modal: 'choose' });
+
+/**
+ * SuggestModal closes itself before reporting the choice,
+ * so the choice is recorded in selectSuggestion and resolved in onClose
+ */
+class Answer<T> {
+	private chosen: { item: T } | null = null;
+
+	constructor(private resolve: (item: T | null) => void) {}
+
+	choose(item: T): void {
+		this.chosen = { item };
+	}
+
+	settle(): void {
+		logger.debug(this.chosen ? 'Answered' : 'Cancelled');
+		this.resolve(this.chosen ? this.chosen.item : null);
+	}
+}
+
+class FuzzyChooseModal<T> extends FuzzySuggestModal<T> {
+	constructor(app: App, private options: ChooseOptions<T>, private answer: Answer<T>) {
+		super(app);
+		if (options.placeholder) this.setPlaceholder(options.placeholder);
+		if (options.emptyText) this.emptyStateText = options.emptyText;
+	}
+
+	getItems(): T[] {
+		return this.options.items;
+	}
+
+	getItemText(item: T): string {
+		return this.options.getText(item);
+	}
+
+	selectSuggestion(match: FuzzyMatch<T>, evt: MouseEvent | KeyboardEvent): void {
+		this.answer.choose(match.item);
+		super.selectSuggestion(match, evt);
+	}
+
+	onChooseItem(): void {
+		// Answered in selectSuggestion
+	}
+
+	onClose() {
+		super.onClose();
+		this.answer.settle();
+	}
+}
+
+class PlainChooseModal<T> extends SuggestModal<T> {
+	constructor(app: App, private options: ChooseOptions<T>, private answer: Answer<T>) {
+		super(app);
+		if (options.placeholder) this.setPlaceholder(options.placeholder);
+		if (options.emptyText) this.emptyStateText = options.emptyText;
+	}
+
+	getSuggestions(query: string): T[] {
+		const needle = query.toLowerCase();
+		return this.options.items.filter(item => this.options.getText(item).toLowerCase().includes(needle));
+	}
+
+	renderSuggestion(item: T, el: HTMLElement): void {
+		el.setText(this.options.getText(item));
+	}
+
+	selectSuggestion(item: T, evt: MouseEvent | KeyboardEvent): void {
+		this.answer.choose(item);
+		super.selectSuggestion(item, evt);
+	}
+
+	onChooseSuggestion(): void {
+		// Answered in selectSuggestion
+	}
+
+	onClose() {
+		super.onClose();
+		this.answer.settle();
+	}
+}
+
+/**
+ * Pick one item from a searchable list
+ * Resolves with the item, or null when cancelled
+ */
+export function choose<T>(app: App, options: ChooseOptions<T>): Promise<T | null> {
+	return new Promise(resolve => {
+		const answer = new Answer<T>(resolve);
+		const modal = options.fuzzy === false
+			? new PlainChooseModal(app, options, answer)
+			: new FuzzyChooseModal(app, options, answer);
+		logger.debug('Opening', { items: options.items.length });
+		modal.open();
+	});
+}
@@ -0,0 +1,43 @@
+import { App } from 'obsidian';
+import { BaseModal } from './BaseModal';
+
+export interface ConfirmOptions {
+	title: string;
+	message?: string;
+	confirmText?: string;   // Default: 'Confirm'
+	cancelText?: string;    // Default: 'Cancel'
+	warning?: boolean;      // Style the confirm button as destructive
+}
+
+/**
+ * Yes/no question; Enter confirms
+ */
+export class ConfirmModal extends BaseModal<true> {
+	constructor(app: App, private options: ConfirmOptions) {
+		super(app, 'confirm');
+	}
+
+	protected render(contentEl: HTMLElement): void {
+		const { title, message, confirmText = 'Confirm', cancelText = 'Cancel', warning = false } = this.options;
+		this.setTitle(title);
+		this.renderMessage(contentEl, message);
+
+		const [, confirmButton] = this.renderButtons(contentEl, [
+			{ text: cancelText, onClick: () => this.close() },
+			{ text: confirmText, cta: !warning, warning, onClick: () => this.submit() }
+		]);
+		confirmButton.buttonEl.focus();
+	}
+
+	protected submit(): void {
+		this.finish(true);
+	}
+}
+
+/**
+ * Ask a yes/no question
+ * Resolves with true when confirmed, null when cancelled
+ */
+export function confirm(app: App, options: ConfirmOptions): Promise<true | null> {
+	return new ConfirmModal(app, options).openAndWait();
+}
@@ -0,0 +1,167 @@
+import { App, Setting } from 'obsidian';
+import { BaseModal } from './BaseModal';
+
+export type FormValue = string | number | boolean;
+
+interface FieldOptions<V> {
+	desc?: string;
+	value?: V;                                   // Initial value
+	validate?: (value: V) => string | null;      // Problem description, or null when valid
+}
+
+export interface TextFieldOptions extends FieldOptions<string> {
+	placeholder?: string;
+	multiline?: boolean;
+	required?: boolean;
+}
+
+export interface NumberFieldOptions extends FieldOptions<number> {
+	min?: number;
+	max?: number;
+}
+
+interface FormField {
+	key: string;
+	name: string;
+	kind: 'text' | 'number' | 'toggle' | 'dropdown';
+	options: TextFieldOptions & NumberFieldOptions & FieldOptions<FormValue> & { choices?: Record<string, string> };
+	value: FormValue;
+	errorEl?: HTMLElement;
+	inputEl?: HTMLElement;
+}
+
+/**
+ * Small form builder; each `add*` call adds a field and its key to the result type
+ *
+ * @example
+ * const values = await new FormModal(app, 'New project')
+ *     .addText('name', 'Name', { required: true })
+ *     .addToggle('pinned', 'Pin to sidebar')
+ *     .openAndWait();
+ * // values: { name: string; pinned: boolean } | null
+ */
+export class FormModal<V extends Record<string, FormValue> = Record<never, never>> extends BaseModal<V> {
+	private fields: FormField[] = [];
+
+	constructor(app: App, private title: string, private submitText = 'Save') {
+		super(app, 'form');
+	}
+
+	addText<K extends string>(key: K, name: string, options: TextFieldOptions = {}): FormModal<V & Record<K, string>> {
+		return this.addField(key, name, 'text', options, options.value ?? '');
+	}
+
+	addNumber<K extends string>(key: K, name: string, options: NumberFieldOptions = {}): FormModal<V & Record<K, number>> {
+		return this.addField(key, name, 'number', options, options.value ?? options.min ?? 0);
+	}
+
+	addToggle<K extends string>(key: K, name: string, options: FieldOptions<boolean> = {}): FormModal<V & Record<K, boolean>> {
+		return this.addField(key, name, 'toggle', options, options.value ?? false);
+	}
+
+	/**
+	 * @param choices - Value -> label; the first one is selected unless `options.value` is set
+	 */
+	addDropdown<K extends string, O extends string>(key: K, name: string, choices: Record<O, string>, options: FieldOptions<O> = {}): FormModal<V & Record<K, O>> {
+		return this.addField(key, name, 'dropdown', { ...options, choices }, options.value ?? Object.keys(choices)[0] ?? '');
+	}
+
+	private addField<R>(key: string, name: string, kind: FormField['kind'], options: object, value: FormValue): FormModal<V & R> {
+		this.fields.push({ key, name, kind, options: options as FormField['options'], value });
+		return this as unknown as FormModal<V & R>;
+	}
+
+	protected render(contentEl: HTMLElement): void {
+		this.setTitle(this.title);
+		for (const field of this.fields) {
+			this.renderField(contentEl, field);
+		}
+		this.renderButtons(contentEl, [
+			{ text: 'Cancel', onClick: () => this.close() },
+			{ text: this.submitText, cta: true, onClick: () => this.submit() }
+		]);
+		this.fields.find(field => field.inputEl)?.inputEl?.focus();
+	}
+
+	private renderField(contentEl: HTMLElement, field: FormField): void {
+		const { options } = field;
+		const setting = new Setting(contentEl).setName(field.name);
+		if (options.desc) setting.setDesc(options.desc);
+
+		field.errorEl = setting.infoEl.createDiv({ cls: 'example-modal-error' });
+		field.errorEl.hide();
+
+		const update = (value: FormValue) => {
+			field.value = value;
+			if (field.errorEl?.isShown()) this.validateField(field);
+		};
+
+		switch (field.kind) {
+			case 'text':
+				if (options.multiline) {
+					setting.addTextArea(text => {
+						text.setPlaceholder(options.placeholder ?? '').setValue(String(field.value)).onChange(update);
+						field.inputEl = text.inputEl;
+					});
+				} else {
+					setting.addText(text => {
+						text.setPlaceholder(options.placeholder ?? '').setValue(String(field.value)).onChange(update);
+						field.inputEl = text.inputEl;
+					});
+				}
+				break;
+			case 'number':
+				setting.addText(text => {
+					text.inputEl.type = 'number';
+					if (options.min !== undefined) text.inputEl.min = String(options.min);
+					if (options.max !== undefined) text.inputEl.max = String(options.max);
+					text.setValue(String(field.value)).onChange(raw => update(raw.trim() === '' ? NaN : Number(raw)));
+					field.inputEl = text.inputEl;
+				});
+				break;
+			case 'toggle':
+				setting.addToggle(toggle => toggle.setValue(Boolean(field.value)).onChange(update));
+				break;
+			case 'dropdown':
+				setting.addDropdown(dropdown => dropdown
+					.addOptions(options.choices ?? {})
+					.setValue(String(field.value))
+					.onChange(update));
+				break;
+		}
+	}
+
+	protected submit(): void {
+		// Validate every field so all problems show at once
+		const invalid = this.fields.filter(field => !this.validateField(field));
+		if (invalid.length > 0) {
+			this.logger.debug('Invalid form', { fields: invalid.map(field => field.key) });
+			invalid[0].inputEl?.focus();
+			return;
+		}
+
+		const values: Record<string, FormValue> = {};
+		for (const field of this.fields) {
+			values[field.key] = field.value;
+		}
+		this.finish(values as V);
+	}
+
+	private validateField(field: FormField): boolean {
+		const { options, value } = field;
+		let problem: string | null = null;
+
+		if (field.kind === 'number') {
+			const number = value as number;
+			if (isNaN(number)) problem = 'Enter a number';
+			else if (options.min !== undefined && number < options.min) problem = `Must be at least ${options.min}`;
+			else if (options.max !== undefined && number > options.max) problem = `Must be at most ${options.max}`;
+		} else if (field.kind === 'text' && options.required && String(value).trim() === '') {
+			problem = 'Required';
+		}
+		problem = problem ?? options.validate?.(value) ?? null;
+
+		if (field.errorEl) this.setError(field.errorEl, problem);
+		return problem === null;
+	}
+}
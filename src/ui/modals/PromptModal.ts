@@ -0,0 +1,74 @@
+import { AbstractTextComponent, App, TextAreaComponent, TextComponent } from 'obsidian';
+import { BaseModal } from './BaseModal';
+
+export interface PromptOptions {
+	title: string;
+	message?: string;
+	value?: string;          // Initial text
+	placeholder?: string;
+	submitText?: string;     // Default: 'OK'
+	multiline?: boolean;     // Text area; Mod+Enter submits
+	allowEmpty?: boolean;    // Default: false
+	validate?: (value: string) => string | null;   // Problem description, or null when valid
+}
+
+/**
+ * Single text input; Enter submits once the value is valid
+ */
+export class PromptModal extends BaseModal<string> {
+	private input: AbstractTextComponent<HTMLInputElement | HTMLTextAreaElement> | null = null;
+	private errorEl: HTMLElement | null = null;
+
+	constructor(app: App, private options: PromptOptions) {
+		super(app, 'prompt');
+	}
+
+	protected render(contentEl: HTMLElement): void {
+		const { title, message, value = '', placeholder = '', submitText = 'OK', multiline = false } = this.options;
+		this.setTitle(title);
+		this.renderMessage(contentEl, message);
+
+		const inputContainer = contentEl.createDiv({ cls: 'example-modal-input' });
+		this.input = multiline ? new TextAreaComponent(inputContainer) : new TextComponent(inputContainer);
+		this.input.setPlaceholder(placeholder).setValue(value).onChange(() => {
+			// Clear the error as soon as the user fixes the input
+			if (this.errorEl?.isShown()) this.validate();
+		});
+
+		this.errorEl = contentEl.createDiv({ cls: 'example-modal-error' });
+		this.errorEl.hide();
+
+		this.renderButtons(contentEl, [
+			{ text: 'Cancel', onClick: () => this.close() },
+			{ text: submitText, cta: true, onClick: () => this.submit() }
+		]);
+
+		this.input.inputEl.focus();
+		this.input.inputEl.select();
+	}
+
+	protected submit(): void {
+		if (this.input && this.validate()) {
+			this.finish(this.input.getValue());
+		}
+	}
+
+	private validate(): boolean {
+		if (!this.input || !this.errorEl) return false;
+
+		const value = this.input.getValue();
+		const problem = !this.options.allowEmpty && value.trim() === ''
+			? 'Enter a value'
+			: this.options.validate?.(value) ?? null;
+		this.setError(this.errorEl, problem);
+		return problem === null;
+	}
+}
+
+/**
+ * Ask for a line (or block) of text
+ * Resolves with the text, or null when cancelled
+ */
+export function prompt(app: App, options: PromptOptions): Promise<string | null> {
+	return new PromptModal(app, options).openAndWait();
+}
@@ -0,0 +1,60 @@
+import { App } from 'obsidian';
+import { SettingsChange } from '../../settings/transfer';
+import { SettingsRepair } from '../../settings/validation';
+import { BaseModal } from './BaseModal';
+
+export interface SettingsChangesOptions {
+	title: string;
+	changes: SettingsChange[];
+	repairs?: SettingsRepair[];
+	confirmText: string;
+}
+
+function describeValue(value: unknown, secret: boolean): string {
+	if (value === undefined) return '(not set)';
+	if (secret) return '••••••';
+	return JSON.stringify(value);
+}
+
+/**
+ * Lists the settings an import or reset would change; resolves with true to apply them
+ */
+export class SettingsChangesModal extends BaseModal<true> {
+	constructor(app: App, private options: SettingsChangesOptions) {
+		super(app, 'settings-changes');
+	}
+
+	protected render(contentEl: HTMLElement): void {
+		const { title, changes, repairs = [], confirmText } = this.options;
+		this.logger.debug('Showing changes', { changes: changes.length, repairs: repairs.length });
+
+		this.setTitle(title);
+		this.renderMessage(contentEl, `${changes.length} ${changes.length === 1 ? 'setting' : 'settings'} will change:`);
+
+		const listEl = contentEl.createDiv({ cls: 'example-settings-changes' });
+		for (const change of changes) {
+			const rowEl = listEl.createDiv({ cls: 'example-settings-change' });
+			rowEl.createDiv({ cls: 'example-settings-change-path', text: change.path });
+			rowEl.createSpan({ cls: 'example-settings-change-before', text: describeValue(change.before, change.secret) });
+			rowEl.createSpan({ text: ' → ' });
+			rowEl.createSpan({ cls: 'example-settings-change-after', text: describeValue(change.after, change.secret) });
+		}
+
+		if (repairs.length > 0) {
+			this.renderMessage(contentEl, 'Some values in the file were invalid and will use the default instead:');
+			const repairsEl = contentEl.createEl('ul', { cls: 'example-settings-repairs' });
+			for (const repair of repairs) {
+				repairsEl.createEl('li', { text: `${repair.path}: ${repair.reason}` });
+			}
+		}
+
+		this.renderButtons(contentEl, [
+			{ text: 'Cancel', onClick: () => this.close() },
+			{ text: confirmText, cta: true, onClick: () => this.submit() }
+		]);
+	}
+
+	protected submit(): void {
+		this.finish(true);
+	}
+}
@@ -0,0 +1,205 @@
+import { ItemView, Notice, WorkspaceLeaf } from 'obsidian';
+import { createLogger, formatFileEntry, LOG_LEVELS, LogEntry, logger, LogLevel, MemorySink } from '../../utils/Logger';
+import { EMPTY_FILTER, LogEntryFilter, matchesFilter, renderLogEntry } from '../components/LogEntryRow';
+
+export const VIEW_TYPE_LOG_VIEWER = 'example-log-viewer';
+
+/**
+ * Streams entries from the Logger's memory sink
+ * Supports filtering, search, pause/resume, clearing and copying entries
+ */
+export class LogViewerView extends ItemView {
+	private logger = createLogger('ui');
+	private buffer: MemorySink;
+	private filter: LogEntryFilter = { ...EMPTY_FILTER };
+	private paused: boolean = false;
+	private missedWhilePaused: number = 0;
+	private selected: Set<LogEntry> = new Set();
+	private unsubscribe: (() => void) | null = null;
+	private listEl: HTMLElement;
+	private statusEl: HTMLElement;
+	private pauseButtonEl: HTMLButtonElement;
+
+	constructor(leaf: WorkspaceLeaf, buffer: MemorySink) {
+		super(leaf);
+		this.buffer = buffer;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_LOG_VIEWER;
+	}
+
+	getDisplayText(): string {
+		return 'Log viewer';
+	}
+
+	getIcon(): string {
+		return 'scroll-text';
+	}
+
+	async onOpen(): Promise<void> {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('example-log-viewer');
+
+		this.logger.debug('Opening log viewer', undefined, ['lifecycle']);
+
+		this.renderToolbar(contentEl.createDiv({ cls: 'example-log-viewer-toolbar' }));
+		this.statusEl = contentEl.createDiv({ cls: 'example-log-viewer-status' });
+		this.listEl = contentEl.createDiv({ cls: 'example-log-viewer-list' });
+
+		this.renderAll();
+		this.unsubscribe = this.buffer.subscribe(entry => this.onEntry(entry));
+	}
+
+	async onClose(): Promise<void> {
+		this.unsubscribe?.();
+		this.unsubscribe = null;
+		this.selected.clear();
+		this.contentEl.empty();
+		this.logger.debug('Log viewer closed', undefined, ['lifecycle']);
+	}
+
+	private renderToolbar(toolbarEl: HTMLElement): void {
+		const componentSelect = toolbarEl.createEl('select', { cls: 'dropdown' });
+		componentSelect.createEl('option', { value: '', text: 'All components' });
+		for (const component of logger.getComponentNames()) {
+			componentSelect.createEl('option', { value: component, text: component });
+		}
+		componentSelect.addEventListener('change', () => {
+			this.filter.component = componentSelect.value || null;
+			this.renderAll();
+		});
+
+		const levelSelect = toolbarEl.createEl('select', { cls: 'dropdown' });
+		for (const level of LOG_LEVELS) {
+			levelSelect.createEl('option', { value: level, text: `${level}+` });
+		}
+		levelSelect.addEventListener('change', () => {
+			this.filter.minLevel = levelSelect.value as LogLevel;
+			this.renderAll();
+		});
+
+		const tagInput = toolbarEl.createEl('input', { type: 'text', placeholder: 'Tag' });
+		tagInput.addEventListener('input', () => {
+			this.filter.tag = tagInput.value.trim();
+			this.renderAll();
+		});
+
+		const searchInput = toolbarEl.createEl('input', { type: 'search', placeholder: 'Search' });
+		searchInput.addEventListener('input', () => {
+			this.filter.search = searchInput.value.trim();
+			this.renderAll();
+		});
+
+		this.pauseButtonEl = toolbarEl.createEl('button', { text: 'Pause' });
+		this.pauseButtonEl.addEventListener('click', () => this.togglePause());
+
+		toolbarEl.createEl('button', { text: 'Copy' }).addEventListener('click', () => {
+			void this.copyEntries();
+		});
+
+		toolbarEl.createEl('button', { text: 'Clear' }).addEventListener('click', () => {
+			this.buffer.clear();
+		});
+	}
+
+	/**
+	 * `null` means the buffer was cleared
+	 */
+	private onEntry(entry: LogEntry | null): void {
+		if (entry === null) {
+			this.selected.clear();
+			this.renderAll();
+			return;
+		}
+
+		if (this.paused) {
+			this.missedWhilePaused++;
+			this.updateStatus();
+			return;
+		}
+
+		if (!matchesFilter(entry, this.filter)) return;
+
+		const stickToBottom = this.isScrolledToBottom();
+		this.appendEntry(entry);
+
+		// Keep the DOM no larger than the buffer
+		while (this.listEl.childElementCount > this.buffer.getCapacity()) {
+			this.listEl.firstElementChild?.remove();
+		}
+
+		if (stickToBottom) {
+			this.listEl.scrollTop = this.listEl.scrollHeight;
+		}
+		this.updateStatus();
+	}
+
+	private renderAll(): void {
+		this.listEl.empty();
+		for (const entry of this.buffer.getEntries()) {
+			if (matchesFilter(entry, this.filter)) {
+				this.appendEntry(entry);
+			}
+		}
+		this.listEl.scrollTop = this.listEl.scrollHeight;
+		this.updateStatus();
+	}
+
+	private appendEntry(entry: LogEntry): void {
+		const rowEl = renderLogEntry(this.listEl, entry);
+		rowEl.toggleClass('is-selected', this.selected.has(entry));
+
+		// Click the header to select entries for copying
+		rowEl.firstElementChild?.addEventListener('click', () => {
+			if (this.selected.has(entry)) {
+				this.selected.delete(entry);
+			} else {
+				this.selected.add(entry);
+			}
+			rowEl.toggleClass('is-selected', this.selected.has(entry));
+			this.updateStatus();
+		});
+	}
+
+	private togglePause(): void {
+		this.paused = !this.paused;
+		this.pauseButtonEl.setText(this.paused ? 'Resume' : 'Pause');
+		this.pauseButtonEl.toggleClass('mod-cta', this.paused);
+
+		if (!this.paused) {
+			// Pick up everything logged while paused
+			this.missedWhilePaused = 0;
+			this.renderAll();
+		}
+		this.updateStatus();
+	}
+
+	/**
+	 * Copy the selected entries, or every visible entry when nothing is selected
+	 */
+	private async copyEntries(): Promise<void> {
+		const entries = this.buffer.getEntries().filter(entry =>
+			this.selected.size > 0 ? this.selected.has(entry) : matchesFilter(entry, this.filter));
+
+		try {
+			await navigator.clipboard.writeText(entries.map(entry => formatFileEntry(entry)).join(''));
+			new Notice(`Copied ${entries.length} log entries`);
+		} catch (error) {
+			this.logger.error('Failed to copy log entries', error);
+			new Notice('Could not copy log entries');
+		}
+	}
+
+	private updateStatus(): void {
+		const parts = [`${this.listEl.childElementCount} shown`];
+		if (this.selected.size > 0) parts.push(`${this.selected.size} selected`);
+		if (this.paused) parts.push(`paused, ${this.missedWhilePaused} new`);
+		this.statusEl.setText(parts.join(' · '));
+	}
+
+	private isScrolledToBottom(): boolean {
+		return this.listEl.scrollHeight - this.listEl.scrollTop - this.listEl.clientHeight < 20;
+	}
+}
@@ -0,0 +1,121 @@
+import { Command, Notice, Plugin } from 'obsidian';
+import { ComponentLogger, createLogger, KnownComponent } from './Logger';
+
+export interface ErrorBoundaryOptions {
+	noticeInterval?: number;   // Minimum milliseconds between error notices (default: 10000)
+}
+
+function isThenable(value: unknown): value is PromiseLike<unknown> {
+	return typeof value === 'object' && value !== null && typeof (value as PromiseLike<unknown>).then === 'function';
+}
+
+/**
+ * Catches errors thrown by callbacks Obsidian calls - commands, ribbon icons,
+ * event handlers and intervals - including rejected promises from async callbacks.
+ * Each error is logged with its stack under the callback's component and counted;
+ * the user sees a notice, at most one per `noticeInterval`.
+ * Components are the built-in ones plus those declared in `RegisteredComponents`.
+ */
+export class ErrorBoundary {
+	private counts = new Map<KnownComponent, number>();
+	private loggers = new Map<KnownComponent, ComponentLogger>();
+	private lastNoticeAt = 0;
+	private suppressedNotices = 0;
+
+	constructor(private plugin: Plugin, private options: ErrorBoundaryOptions = {}) {}
+
+	/**
+	 * Guard any callback, e.g. an event handler:
+	 * `this.registerEvent(workspace.on('file-open', errors.wrap('events', 'file-open', file => ...)))`
+	 * Returns undefined when the callback throws
+	 */
+	wrap<A extends unknown[], R>(component: KnownComponent, label: string, callback: (...args: A) => R): (...args: A) => R | undefined {
+		return (...args: A) => {
+			try {
+				const result = callback(...args);
+				if (isThenable(result)) {
+					result.then(undefined, error => this.report(component, label, error));
+				}
+				return result;
+			} catch (error) {
+				this.report(component, label, error);
+				return undefined;
+			}
+		};
+	}
+
+	/**
+	 * `Plugin.addCommand` with every callback variant guarded
+	 * A check callback that throws reports the command as unavailable
+	 */
+	addCommand(command: Command, component: KnownComponent = 'main'): Command {
+		const label = `Command "${command.name}"`;
+		const guarded: Command = { ...command };
+		if (command.callback) guarded.callback = this.wrap(component, label, command.callback);
+		if (command.checkCallback) guarded.checkCallback = this.wrap(component, label, command.checkCallback);
+		if (command.editorCallback) guarded.editorCallback = this.wrap(component, label, command.editorCallback);
+		if (command.editorCheckCallback) guarded.editorCheckCallback = this.wrap(component, label, command.editorCheckCallback);
+		return this.plugin.addCommand(guarded);
+	}
+
+	/**
+	 * `Plugin.addRibbonIcon` with the click handler guarded
+	 */
+	addRibbonIcon(icon: string, title: string, callback: (evt: MouseEvent) => unknown, component: KnownComponent = 'main'): HTMLElement {
+		return this.plugin.addRibbonIcon(icon, title, this.wrap(component, `Ribbon icon "${title}"`, callback));
+	}
+
+	/**
+	 * `setInterval` registered with the plugin, so it stops on unload
+	 */
+	registerInterval(component: KnownComponent, label: string, callback: () => unknown, timeout: number): number {
+		return this.plugin.registerInterval(window.setInterval(this.wrap(component, label, callback), timeout));
+	}
+
+	/**
+	 * Log, count and notify - also usable for errors caught elsewhere
+	 */
+	report(component: KnownComponent, label: string, error: unknown): void {
+		this.counts.set(component, (this.counts.get(component) ?? 0) + 1);
+		this.getLogger(component).error(`${label} failed`, error, ['error-boundary']);
+		this.notify(label);
+	}
+
+	/**
+	 * Errors caught this session, for one component or all of them
+	 */
+	getErrorCount(component?: KnownComponent): number {
+		if (component) return this.counts.get(component) ?? 0;
+		let total = 0;
+		this.counts.forEach(count => { total += count; });
+		return total;
+	}
+
+	getErrorCounts(): Partial<Record<KnownComponent, number>> {
+		const counts: Partial<Record<KnownComponent, number>> = {};
+		this.counts.forEach((count, component) => { counts[component] = count; });
+		return counts;
+	}
+
+	private notify(label: string): void {
+		const now = Date.now();
+		if (now - this.lastNoticeAt < (this.options.noticeInterval ?? 10000)) {
+			this.suppressedNotices++;
+			return;
+		}
+
+		const more = this.suppressedNotices > 0 ? ` (and ${this.suppressedNotices} more since the last notice)` : '';
+		new Notice(`${this.plugin.manifest.name}: ${label} failed${more}, see the console for details`);
+		this.lastNoticeAt = now;
+		this.suppressedNotices = 0;
+	}
+
+	private getLogger(component: KnownComponent): ComponentLogger {
+		let componentLogger = this.loggers.get(component);
+		if (!componentLogger) {
+			componentLogger = createLogger(component);
+			this.loggers.set(component, componentLogger);
+		}
+		return componentLogger;
+	}
+}
@@ -1,13 +1,43 @@
 /**
  * Centralized logging system for Obsidian plugins
  * Provides granular control over debug output from different components
- * Supports both console and file logging
+ * Entries are dispatched to pluggable sinks (console, vault file, memory, custom)
  * 
  * PRODUCTION BUILDS: Debug code is completely removed from production builds
  * via dead code elimination. Use NODE_ENV=production in build to strip debug.
+ * `diagnostic` calls stay in the bundle and log while diagnostic mode is on.
  */
 
-import { App } from 'obsidian';
+import { BUILT_IN_COMPONENTS, ComponentLogger, ComponentLoggerHost, ComponentName, ComponentOptions, DEFAULT_LEVEL, KnownComponent, LoggerConfig, popTags, scopedComponentLogger } from './logging/components';
+import { ConsoleSink } from './logging/ConsoleSink';
+import { DIAGNOSTIC_TAG, DiagnosticMode, DiagnosticModeListener, DiagnosticModeState } from './logging/diagnostics';
+import { LoggerBase } from './logging/LoggerBase';
+import { Span, SpanLogFunction, SpanTracker } from './logging/spans';
+import { TagFilter, TagFilterOptions } from './logging/tagFilters';
+import { isLevelEnabled, LogContext, LogEntry, LogLevel } from './logging/types';
+
+export type { LevelCounts, LevelCountsListener, LogContext, LogEntry, LogFormatter, LogLevel, LogSink, SinkOptions } from './logging/types';
+export { LOG_LEVELS } from './logging/types';
+export { BaseSink } from './logging/BaseSink';
+export { ConsoleSink } from './logging/ConsoleSink';
+export { MemorySink } from './logging/MemorySink';
+export type { MemorySinkListener, MemorySinkOptions } from './logging/MemorySink';
+export { VaultFileSink } from './logging/VaultFileSink';
+export type { LogFileFormat, VaultFileSinkOptions } from './logging/VaultFileSink';
+export { formatConsoleEntry, formatContext, formatFileEntry, formatJsonLineEntry } from './logging/formatters';
+export { safeStringify, toSerializable } from './logging/serialize';
+export { DEFAULT_REDACTION_RULES, pathRule, REDACTED, Redactor } from './logging/redaction';
+export type { RedactionRule } from './logging/redaction';
+export { formatTagFilterSpec, matchesTagPattern, parseTagFilterSpec } from './logging/tagFilters';
+export type { TagFilterOptions } from './logging/tagFilters';
+export type { SerializeOptions } from './logging/serialize';
+export type { Span, SpanOutcome } from './logging/spans';
+export { DEFAULT_THROTTLE_CONFIG } from './logging/throttle';
+export { DIAGNOSTIC_TAG } from './logging/diagnostics';
+export type { DiagnosticModeListener, DiagnosticModeState } from './logging/diagnostics';
+export type { RateLimit, ThrottleConfig } from './logging/throttle';
+// Augment `RegisteredComponents` through this module, see components.ts
+export type { ComponentLogger, ComponentName, ComponentOptions, KnownComponent, LoggerConfig, RegisteredComponents, TagFilterConfig } from './logging/components';
 
 // Build-time constant - will be replaced by esbuild
 declare const BUILD_ENV: string;
@@ -25,183 +55,106 @@ function isDevelopment(): boolean {
 	}
 }
 
-export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
-
-export type ComponentName = 
-    | 'main'          // Plugin main class
-    | 'modal'         // Modal dialogs
-    | 'api'           // API calls
-    | 'settings'      // Settings management
-    | 'ui'            // UI components
-    | 'events'        // Event handling
-    | 'general';      // General/uncategorized
-
-export interface LoggerConfig {
-    main: LogLevel;
-    modal: LogLevel;
-    api: LogLevel;
-    settings: LogLevel;
-    ui: LogLevel;
-    events: LogLevel;
-    general: LogLevel;
-}
-
-/**
- * Tag-based filtering configuration
- * Allows granular control within components (e.g., only show 'validation' debug from 'npe')
- */
-export interface TagFilterConfig {
-    component: ComponentName;
-    level: LogLevel;
-    tags: string[];  // Only log messages with these tags
-}
-
 /**
- * Default configuration - warnings and errors only
- * Users can enable debug logging through settings if needed
+ * The type parameter tracks registered component names so that
+ * unknown names are rejected at compile time. Names that only exist
+ * at runtime (e.g. loaded from settings) are checked and reported once.
  */
-const DEFAULT_CONFIG: LoggerConfig = {
-    main: 'warn',
-    modal: 'warn',
-    api: 'warn',
-    settings: 'warn',
-    ui: 'warn',
-    events: 'warn',
-    general: 'warn'
-};
-
-class Logger {
-    private config: LoggerConfig;
+class Logger<C extends string = ComponentName> extends LoggerBase {
+    private config: Record<string, LogLevel> = {};
+    private components: Map<string, ComponentOptions> = new Map();
+    private reportedUnknown: Set<string> = new Set();
     private enabled: boolean;
-    private fileLoggingEnabled: boolean = false;
-    private logFilePath: string = '';
-    private logBuffer: string[] = [];
-    private maxBufferSize: number = 10;
-    private app: App | null = null;
-    private tagFilters: Map<ComponentName, Set<string>> = new Map();
+    private tagFilters: Map<string, TagFilter> = new Map();
+    private diagnostics: DiagnosticMode = new DiagnosticMode();
+    // Shared by spans and component loggers - tags travel as a trailing string[] in `args`
+    private logWithTags: SpanLogFunction = (span, component, context, level, message, args) =>
+        this.logWithContext(level, component, message, popTags(args), args, context, span);
+    private spans: SpanTracker = new SpanTracker(isDevelopment, this.logWithTags);
+    private componentHost: ComponentLoggerHost = {
+        log: this.logWithTags,
+        diagnostic: (component, message, tags, args, context) => this.logDiagnostic(component, message, tags, args, context),
+        spans: this.spans
+    };
 
     constructor() {
-        this.config = { ...DEFAULT_CONFIG };
+        super();
+        for (const [name, options] of Object.entries(BUILT_IN_COMPONENTS)) {
+            this.addComponent(name, options);
+        }
         this.enabled = true;
+        this.addSink(new ConsoleSink());
     }
 
     /**
-     * Initialize file logging with the Obsidian app instance
+     * Register a plugin-specific component
+     * Returns the same logger, typed to accept the new component name
+     * 
+     * @example
+     * export const pluginLogger = logger
+     *     .registerComponent('sync', { defaultLevel: 'info' })
+     *     .registerComponent('parser');
+     * 
+     * const syncLogger = pluginLogger.createComponentLogger('sync');
+     * 
+     * To use the name with `createLogger` as well, declare it in `RegisteredComponents`.
      */
-    initFileLogging(app: App, logFileName: string = 'debug-log.txt'): void {
-        this.app = app;
-        this.logFilePath = logFileName;
-        this.fileLoggingEnabled = true;
-        
-        this.writeToFile(`[${new Date().toISOString()}] === Plugin Debug Log Started ===\n`);
-    }
+    registerComponent<N extends string>(name: N, options: ComponentOptions = {}): Logger<C | N> {
+        if (!/^[a-z][a-z0-9-]*$/i.test(name)) {
+            throw new Error(`[Logger] Invalid component name "${name}" (use letters, digits and dashes)`);
+        }
 
-    /**
-     * Disable file logging
-     */
-    disableFileLogging(): void {
-        if (this.fileLoggingEnabled && this.logBuffer.length > 0) {
-            this.flushBuffer();
+        if (this.components.has(name)) {
+            console.warn(`[Logger] Component "${name}" is already registered`);
+        } else {
+            this.addComponent(name, options);
+            this.reportedUnknown.delete(name);
         }
-        this.fileLoggingEnabled = false;
+
+        return this as unknown as Logger<C | N>;
     }
 
     /**
-     * Write a message to the log file (buffered)
+     * Check whether a component name has been registered
      */
-    private writeToFile(message: string): void {
-        if (!this.fileLoggingEnabled || !this.app) return;
-
-        this.logBuffer.push(message);
-        
-        if (this.logBuffer.length >= this.maxBufferSize) {
-            this.flushBuffer();
-        }
+    isRegistered(name: string): name is C {
+        return this.components.has(name);
     }
 
     /**
-     * Flush the log buffer to file
+     * Get the options a component was registered with
      */
-    private flushBuffer(): void {
-        if (!this.fileLoggingEnabled || !this.app || this.logBuffer.length === 0) return;
-
-        try {
-            const content = this.logBuffer.join('');
-            const maxFileSize = 1024 * 1024; // 1MB limit
-
-            this.app.vault.adapter.exists(this.logFilePath).then((exists: boolean) => {
-                if (!this.app) return;
-                
-                if (exists) {
-                    this.app.vault.adapter.stat(this.logFilePath).then((stat) => {
-                        if (!this.app || !stat) return;
-                        
-                        if (stat.size > maxFileSize) {
-                            const clearHeader = `[${new Date().toISOString()}] === Log file cleared (size exceeded 1MB) ===\n`;
-                            this.app.vault.adapter.write(this.logFilePath, clearHeader + content).then(() => {
-                                this.logBuffer = [];
-                            }).catch((error) => {
-                                console.error('[Logger] Failed to clear and write log file:', error);
-                            });
-                        } else {
-                            this.app.vault.adapter.read(this.logFilePath).then((existingContent: string) => {
-                                if (!this.app) return;
-                                const newContent = existingContent + content;
-                                this.app.vault.adapter.write(this.logFilePath, newContent).then(() => {
-                                    this.logBuffer = [];
-                                }).catch((error) => {
-                                    console.error('[Logger] Failed to write to log file (append):', error);
-                                });
-                            }).catch((error) => {
-                                console.error('[Logger] Failed to read existing log file:', error);
-                            });
-                        }
-                    }).catch((error) => {
-                        console.error('[Logger] Failed to get log file stats:', error);
-                    });
-                } else {
-                    this.app.vault.adapter.write(this.logFilePath, content).then(() => {
-                        this.logBuffer = [];
-                    }).catch((error) => {
-                        console.error('[Logger] Failed to create log file:', error);
-                    });
-                }
-            }).catch((error) => {
-                console.error('[Logger] Failed to check if log file exists:', error);
-            });
-        } catch (error) {
-            console.error('Failed to flush log buffer:', error);
-        }
+    getComponentOptions(component: C): ComponentOptions | undefined {
+        return this.components.get(component);
+    }
+
+    private addComponent(name: string, options: ComponentOptions): void {
+        this.components.set(name, options);
+        this.config[name] = options.defaultLevel ?? DEFAULT_LEVEL;
     }
 
     /**
-     * Format log message for file output with timestamp and structured JSON
+     * Verify a component name at runtime, reporting unknown names once
      */
-    private formatForFile(component: ComponentName, level: LogLevel, message: string, tags: string[] | undefined, args: unknown[]): string {
-        const timestamp = new Date().toISOString();
-        const formattedMessage = this.formatMessage(component, message, tags);
-        
-        let result = `[${timestamp}] [${level.toUpperCase()}] ${formattedMessage}`;
-        
-        if (args.length > 0) {
-            result += '\n  Arguments: ';
-            try {
-                const argsJson = JSON.stringify(args, null, 2);
-                result += argsJson;
-            } catch (error) {
-                result += '[Unable to serialize arguments: ' + String(error) + ']';
-            }
+    private checkComponent(name: string): boolean {
+        if (this.components.has(name)) return true;
+
+        if (!this.reportedUnknown.has(name)) {
+            this.reportedUnknown.add(name);
+            console.warn(`[Logger] Unknown component "${name}" - register it with logger.registerComponent()`);
         }
-        
-        result += '\n';
-        return result;
+        return false;
     }
 
     /**
      * Update the logging configuration
      */
-    setConfig(config: Partial<LoggerConfig>): void {
-        this.config = { ...this.config, ...config };
+    setConfig(config: Partial<LoggerConfig<C>>): void {
+        for (const [component, level] of Object.entries(config) as [string, LogLevel | undefined][]) {
+            if (level && this.checkComponent(component)) {
+                this.config[component] = level;
+            }
+        }
     }
 
     /**
@@ -214,8 +167,15 @@ class Logger {
     /**
      * Get current configuration
      */
-    getConfig(): LoggerConfig {
-        return { ...this.config };
+    getConfig(): LoggerConfig<C> {
+        return { ...this.config } as LoggerConfig<C>;
+    }
+
+    /**
+     * Get the names of all registered components
+     */
+    getComponentNames(): C[] {
+        return Array.from(this.components.keys()) as C[];
     }
 
     /**
@@ -233,20 +193,63 @@ class Logger {
      * // Show only 'validation' and 'rendering' debug messages for 'ui' component
      * logger.setComponentLevel('ui', 'debug', ['validation', 'rendering']);
      */
-    setComponentLevel(component: ComponentName, level: LogLevel, tags?: string[]): void {
+    setComponentLevel(component: C, level: LogLevel, tags?: string[]): void {
+        if (!this.checkComponent(component)) return;
+
         this.config[component] = level;
         
-        if (tags && tags.length > 0) {
-            this.tagFilters.set(component, new Set(tags));
-        } else {
+        // Replaces the include list only - excludes and tag levels stay
+        this.updateTagFilter(component, { include: tags ?? [] });
+    }
+
+    /**
+     * Replace all tag filtering for a component
+     * Tags are hierarchical (`sync:conflict:remote`); patterns may use `*` wildcards
+     * 
+     * @example
+     * // Everything in 'ui' except rendering, and sync conflicts even at debug
+     * logger.setTagFilter('ui', {
+     *     exclude: ['rendering'],
+     *     tagLevels: { 'sync:conflict:*': 'debug' }
+     * });
+     */
+    setTagFilter(component: C, options: TagFilterOptions): void {
+        if (!this.checkComponent(component)) return;
+
+        const filter = new TagFilter(options);
+        if (filter.isEmpty()) {
             this.tagFilters.delete(component);
+        } else {
+            this.tagFilters.set(component, filter);
         }
     }
 
+    /**
+     * Drop messages with these tags at every level
+     */
+    excludeTags(component: C, tags: string[]): void {
+        const current = this.getTagFilterOptions(component);
+        this.updateTagFilter(component, { exclude: [...(current?.exclude ?? []), ...tags] });
+    }
+
+    /**
+     * Set the minimum level for messages with a matching tag (null removes it)
+     * Replaces the component level for those messages, so it can be lower or higher
+     */
+    setTagLevel(component: C, tagPattern: string, level: LogLevel | null): void {
+        const tagLevels = { ...this.getTagFilterOptions(component)?.tagLevels };
+        if (level) {
+            tagLevels[tagPattern] = level;
+        } else {
+            delete tagLevels[tagPattern];
+        }
+        this.updateTagFilter(component, { tagLevels });
+    }
+
     /**
      * Clear tag filters for a component (show all debug messages)
      */
-    clearTagFilters(component: ComponentName): void {
+    clearTagFilters(component: C): void {
         this.tagFilters.delete(component);
     }
 
@@ -258,52 +261,80 @@ class Logger {
     }
 
     /**
-     * Get active tag filters for a component
+     * Get the include tags for a component
      */
-    getTagFilters(component: ComponentName): string[] | undefined {
-        const filters = this.tagFilters.get(component);
-        return filters ? Array.from(filters) : undefined;
+    getTagFilters(component: C): string[] | undefined {
+        const include = this.tagFilters.get(component)?.getInclude();
+        return include && include.length > 0 ? include : undefined;
+    }
+
+    /**
+     * Get the complete tag filtering for a component
+     */
+    getTagFilterOptions(component: C): TagFilterOptions | undefined {
+        return this.tagFilters.get(component)?.toOptions();
+    }
+
+    private updateTagFilter(component: C, changes: TagFilterOptions): void {
+        this.setTagFilter(component, { ...this.getTagFilterOptions(component), ...changes });
     }
 
     /**
      * Check if a log level should be output for a component
-     * Optionally checks tags for fine-grained filtering
+     * Tag filters can drop the message or replace the component level
      */
-    private shouldLog(component: ComponentName, level: LogLevel, tags?: string[]): boolean {
+    private shouldLog(component: string, level: LogLevel, tags?: string[]): boolean {
         if (!this.enabled) return false;
 
-        const componentLevel = this.config[component];
-        const levels: LogLevel[] = ['debug', 'info', 'warn', 'error'];
-        const componentLevelIndex = levels.indexOf(componentLevel);
-        const requestedLevelIndex = levels.indexOf(level);
+        // Unknown components still get warnings and errors through
+        const componentLevel = this.checkComponent(component) ? this.config[component] : DEFAULT_LEVEL;
 
-        // Check if level is high enough
-        if (requestedLevelIndex < componentLevelIndex) {
-            return false;
+        const filter = this.tagFilters.get(component);
+        if (filter) {
+            return filter.allows(level, componentLevel, tags);
         }
 
-        // For debug level, check tag filters if they exist
-        if (level === 'debug' && this.tagFilters.has(component)) {
-            const allowedTags = this.tagFilters.get(component)!;
-            
-            // If message has no tags, don't show it when filters are active
-            if (!tags || tags.length === 0) {
-                return false;
-            }
-            
-            // Check if any of the message tags match allowed tags
-            return tags.some(tag => allowedTags.has(tag));
+        return isLevelEnabled(level, componentLevel);
+    }
+
+    private emit(level: LogLevel, component: string, message: string, tags: string[] | undefined, args: unknown[], context: LogContext | undefined, span: Span | undefined): void {
+        const entry: LogEntry = { timestamp: Date.now(), level, component, message, tags, args };
+        if (context && Object.keys(context).length > 0) {
+            entry.context = context;
+        }
+        if (span?.correlationId) {
+            entry.correlationId = span.correlationId;
+            entry.span = span.name;
         }
+        this.dispatch(entry);
+    }
 
-        return true;
+    /**
+     * Start a timing span - call `end()` (or `end(error)`) when the operation finishes
+     * Nests under the span whose `withSpan` callback is running, if any.
+     * In production builds this returns a span that only passes messages through.
+     * 
+     * @example
+     * const span = logger.startSpan('api', 'sync');
+     * span.info('Uploading', { files: 3 });
+     * span.end();  // [API][span][k3x9a0qe sync] sync finished in 120.5ms
+     */
+    startSpan(component: C, name: string): Span {
+        return this.spans.start(component, name);
     }
 
     /**
-     * Format log message with component prefix and optional tags
+     * Run `fn` in a span that ends when `fn` returns or its promise settles
+     * Errors are logged with the duration and rethrown.
+     * 
+     * @example
+     * await logger.withSpan('api', 'sync', async span => {
+     *     await span.withSpan('upload', () => upload(files));
+     *     span.debug('Upload done', ['sync']);
+     * });
      */
-    private formatMessage(component: ComponentName, message: string, tags?: string[]): string {
-        const tagStr = tags && tags.length > 0 ? `[${tags.join(',')}]` : '';
-        return `[${component.toUpperCase()}]${tagStr} ${message}`;
+    withSpan<T>(component: C, name: string, fn: (span: Span) => T): T {
+        return this.spans.run(component, name, fn);
     }
 
     /**
@@ -321,106 +352,144 @@ class Logger {
      * logger.debug('ui', 'Processing data');
      * logger.debug('ui', 'Validation failed', ['validation'], { field: 'name' });
      */
-    debug(component: ComponentName, message: string, tags?: string[], ...args: unknown[]): void {
+    debug(component: C, message: string, tags?: string[], ...args: unknown[]): void {
         // This entire block will be removed in production builds
         if (!isDevelopment()) return;
         
-        if (this.shouldLog(component, 'debug', tags)) {
-            console.debug(this.formatMessage(component, message, tags), ...args);
-            
-            if (this.fileLoggingEnabled) {
-                this.writeToFile(this.formatForFile(component, 'debug', message, tags, args));
-            }
-        }
+        this.logWithContext('debug', component, message, tags, args);
     }
 
     /**
-     * Info logging
+     * Diagnostic logging - KEPT IN PRODUCTION BUILDS
+     * 
+     * While diagnostic mode is on, the message is logged at debug level whatever
+     * the component level and tag filters say. Otherwise it behaves like `debug`.
+     * Entries are tagged `diagnostic`. Keep these calls few and outside
+     * DEBUG_START/DEBUG_END blocks: enough to follow a bug report, not every step.
+     * 
+     * @example
+     * logger.diagnostic('api', 'Sync finished', ['sync'], { uploaded: 3, skipped: 1 });
      */
-    info(component: ComponentName, message: string, ...args: unknown[]): void {
-        if (this.shouldLog(component, 'info')) {
-            console.info(this.formatMessage(component, message), ...args);
-            
-            if (this.fileLoggingEnabled) {
-                this.writeToFile(this.formatForFile(component, 'info', message, undefined, args));
-            }
+    diagnostic(component: C, message: string, tags?: string[], ...args: unknown[]): void {
+        this.logDiagnostic(component, message, tags, args);
+    }
+
+    private logDiagnostic(component: string, message: string, tags: string[] | undefined, args: unknown[], context?: LogContext): void {
+        const diagnosticTags = [...(tags ?? []), DIAGNOSTIC_TAG];
+        if (!this.diagnostics.isActive()) {
+            this.logWithContext('debug', component, message, diagnosticTags, args, context);
+            return;
+        }
+
+        if (this.enabled) {
+            this.checkComponent(component);
+            this.emit('debug', component, message, diagnosticTags, args, context, this.spans.current());
         }
     }
 
     /**
-     * Warning logging
+     * Switch diagnostic mode on for `durationMs`, or until switched off
+     * It ends with the session either way - nothing about it is saved
      */
-    warn(component: ComponentName, message: string, ...args: unknown[]): void {
-        if (this.shouldLog(component, 'warn')) {
-            console.warn(this.formatMessage(component, message), ...args);
-            
-            if (this.fileLoggingEnabled) {
-                this.writeToFile(this.formatForFile(component, 'warn', message, undefined, args));
-            }
-        }
+    enableDiagnosticMode(durationMs?: number): void {
+        this.diagnostics.enable(durationMs);
+    }
+
+    disableDiagnosticMode(): void {
+        this.diagnostics.disable();
+    }
+
+    getDiagnosticMode(): DiagnosticModeState {
+        return this.diagnostics.getState();
     }
 
     /**
-     * Error logging
+     * Listen for diagnostic mode switching on or off, including expiry
+     * Returns a function that removes the listener
      */
-    error(component: ComponentName, message: string, ...args: unknown[]): void {
-        if (this.shouldLog(component, 'error')) {
-            console.error(this.formatMessage(component, message), ...args);
-            
-            if (this.fileLoggingEnabled) {
-                this.writeToFile(this.formatForFile(component, 'error', message, undefined, args));
-            }
+    onDiagnosticModeChanged(listener: DiagnosticModeListener): () => void {
+        return this.diagnostics.onChange(listener);
+    }
+
+    /**
+     * Shared path for every logging method
+     * Entries pick up the running span unless a span is given
+     */
+    private logWithContext(level: LogLevel, component: string, message: string, tags: string[] | undefined, args: unknown[], context?: LogContext, span?: Span): void {
+        if (level === 'debug' && !isDevelopment()) return;
+
+        if (this.shouldLog(component, level, tags)) {
+            this.emit(level, component, message, tags, args, context, span ?? this.spans.current());
         }
     }
 
     /**
-     * Manually flush the log buffer
+     * Info logging
      */
-    flush(): void {
-        this.flushBuffer();
+    info(component: C, message: string, ...args: unknown[]): void {
+        this.log('info', component, message, undefined, ...args);
     }
 
     /**
-     * Clear the log buffer without writing to file
+     * Warning logging
      */
-    clearBuffer(): void {
-        this.logBuffer = [];
+    warn(component: C, message: string, ...args: unknown[]): void {
+        this.log('warn', component, message, undefined, ...args);
+    }
+
+    /**
+     * Error logging
+     */
+    error(component: C, message: string, ...args: unknown[]): void {
+        this.log('error', component, message, undefined, ...args);
+    }
+
+    /**
+     * Log at any level with optional tags
+     * Debug calls are still removed from production builds
+     * 
+     * @example
+     * logger.log('warn', 'api', 'Rate limited', ['sync:remote'], { retryIn: 30 });
+     */
+    log(level: LogLevel, component: C, message: string, tags?: string[], ...args: unknown[]): void {
+        if (level === 'debug') {
+            this.debug(component, message, tags, ...args);
+            return;
+        }
+
+        this.logWithContext(level, component, message, tags, args);
     }
 
     /**
      * Create a component-specific logger that automatically prefixes the component
+     * Every level takes an optional tags array as the last argument
      * 
      * @example
      * const logger = createLogger('ui');
      * logger.debug('Message');  // No tags
      * logger.debug('Message', data, ['validation']);  // With tag
+     * logger.warn('Slow render', { ms }, ['rendering:list']);
+     * 
+     * // Bind fields to every entry
+     * const fileLogger = logger.child({ file: file.path });
+     * fileLogger.info('Parsed');  // [UI] Parsed {file=notes/a.md}
      */
-    createComponentLogger(component: ComponentName) {
-        return {
-            debug: (message: string, ...args: unknown[]) => {
-                // Last arg might be tags array
-                const lastArg = args[args.length - 1];
-                if (Array.isArray(lastArg) && lastArg.every(item => typeof item === 'string')) {
-                    const tags = args.pop() as string[];
-                    this.debug(component, message, tags, ...args);
-                } else {
-                    this.debug(component, message, undefined, ...args);
-                }
-            },
-            info: (message: string, ...args: unknown[]) => this.info(component, message, ...args),
-            warn: (message: string, ...args: unknown[]) => this.warn(component, message, ...args),
-            error: (message: string, ...args: unknown[]) => this.error(component, message, ...args),
-        };
+    createComponentLogger(component: C, context?: LogContext): ComponentLogger {
+        this.checkComponent(component);
+        return scopedComponentLogger(this.componentHost, component, context);
     }
 }
 
-// Export a singleton instance
-export const logger = new Logger();
+// Export a singleton instance - typed for the built-in and declared components
+export const logger = new Logger<KnownComponent>();
+
+export type { Logger };
 
-// Convenience method to get component loggers
-export function createLogger(component: ComponentName) {
+/**
+ * Convenience method to get a component logger
+ * Accepts the built-in components and those declared in `RegisteredComponents`;
+ * register the component at runtime with `logger.registerComponent` before logging.
+ */
+export function createLogger(component: KnownComponent): ComponentLogger {
     return logger.createComponentLogger(component);
 }
-
-// Export type for component loggers
-export type ComponentLogger = ReturnType<typeof createLogger>;
@@ -0,0 +1,135 @@
+import { apiVersion, App, Platform, PluginManifest, TFile } from 'obsidian';
+import { describeFeatureFlag, FeatureFlagState } from '../features/featureFlags';
+import { formatFileEntry, formatTagFilterSpec, LogEntry, logger } from './Logger';
+
+/**
+ * Debug report generation
+ * Collects versions, environment, settings and recent log entries into one Markdown note
+ */
+
+export interface DebugReportInput {
+	manifest: PluginManifest;
+	settings: unknown;
+	entries: LogEntry[];
+	errorCounts?: Partial<Record<string, number>>;   // Errors caught by the error boundary, by component
+	featureFlags?: FeatureFlagState[];
+	maxEntries?: number;   // Most recent entries included (default: 200)
+}
+
+/**
+ * Internal App API - not part of the public typings
+ */
+interface AppWithPlugins {
+	plugins?: {
+		enabledPlugins?: Set<string>;
+		manifests?: Record<string, PluginManifest>;
+	};
+}
+
+function describePlatform(): string {
+	const os = Platform.isMacOS ? 'macOS' : Platform.isWin ? 'Windows' : Platform.isLinux ? 'Linux'
+		: Platform.isIosApp ? 'iOS' : Platform.isAndroidApp ? 'Android' : 'Unknown OS';
+	const form = Platform.isMobile ? (Platform.isTablet ? 'tablet' : 'phone') : 'desktop';
+	return `${os} (${form}${Platform.isMobileApp ? ', mobile app' : ''})`;
+}
+
+function listEnabledPlugins(app: App): string[] {
+	const plugins = (app as unknown as AppWithPlugins).plugins;
+	if (!plugins?.enabledPlugins) return [];
+
+	return Array.from(plugins.enabledPlugins)
+		.map(id => {
+			const manifest = plugins.manifests?.[id];
+			return manifest ? `${manifest.name} (${id}) ${manifest.version}` : id;
+		})
+		.sort();
+}
+
+function describeErrorCounts(counts: Partial<Record<string, number>>): string {
+	const parts = Object.keys(counts).map(component => `${component} ${counts[component]}`);
+	return parts.length > 0 ? parts.join(', ') : 'none';
+}
+
+function describeDiagnosticMode(): string {
+	const { active, until } = logger.getDiagnosticMode();
+	if (!active) return 'off';
+	return until ? `on until ${new Date(until).toISOString()}` : 'on for this session';
+}
+
+function fence(language: string, content: string): string {
+	// Use a longer fence if the content contains one
+	const ticks = content.includes('```') ? '````' : '```';
+	return `${ticks}${language}\n${content.trimEnd()}\n${ticks}`;
+}
+
+/**
+ * Build the Markdown report
+ * Settings and plugin names go through the Logger's redaction rules;
+ * log entries were already redacted when they were logged
+ */
+export function buildDebugReport(app: App, input: DebugReportInput): string {
+	const { manifest, settings, entries, errorCounts = {}, featureFlags = [] } = input;
+	const recent = entries.slice(-(input.maxEntries ?? 200));
+	const redactor = logger.getRedactor();
+	const plugins = listEnabledPlugins(app).map(plugin => redactor.redactString(plugin));
+
+	const config = logger.getConfig();
+	const throttle = logger.getThrottleConfig();
+	const rateLimit = throttle.defaultComponentLimit ? `${throttle.defaultComponentLimit.perSecond}/s per component` : 'off';
+	const levelRows = logger.getComponentNames().map(component => {
+		const filters = formatTagFilterSpec(logger.getTagFilterOptions(component));
+		return `| ${component} | ${config[component]} | ${filters} |`;
+	});
+
+	return [
+		`# ${manifest.name} debug report`,
+		'',
+		`Generated ${new Date().toISOString()}`,
+		'',
+		'## Environment',
+		'',
+		`- Plugin version: ${manifest.version}`,
+		`- Obsidian version: ${apiVersion}`,
+		`- Platform: ${describePlatform()}`,
+		'',
+		`## Enabled community plugins (${plugins.length})`,
+		'',
+		plugins.length > 0 ? plugins.map(plugin => `- ${plugin}`).join('\n') : '_None_',
+		'',
+		'## Settings',
+		'',
+		fence('json', JSON.stringify(redactor.redactValue(settings), null, 2)),
+		'',
+		'## Feature flags',
+		'',
+		featureFlags.length > 0 ? featureFlags.map(flag => `- ${describeFeatureFlag(flag)}`).join('\n') : '_None_',
+		'',
+		'## Logger configuration',
+		'',
+		'| Component | Level | Tag filters |',
+		'|-----------|-------|-------------|',
+		...levelRows,
+		'',
+		`File logging: ${logger.isFileLoggingEnabled() ? 'enabled' : 'disabled'}`,
+		`Diagnostic mode: ${describeDiagnosticMode()}`,
+		`Collapse repeated messages: ${throttle.dedupe ? 'on' : 'off'}, rate limit: ${rateLimit}`,
+		`Errors caught this session: ${describeErrorCounts(errorCounts)}`,
+		'',
+		`## Recent log entries (${recent.length} of ${entries.length})`,
+		'',
+		recent.length > 0 ? fence('text', recent.map(entry => formatFileEntry(entry)).join('')) : '_No entries recorded_',
+		''
+	].join('\n');
+}
+
+/**
+ * Write the report to a new note in the vault root
+ */
+export async function createDebugReportNote(app: App, content: string): Promise<TFile> {
+	const stamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
+	let path = `Debug report ${stamp}.md`;
+	for (let counter = 2; app.vault.getAbstractFileByPath(path); counter++) {
+		path = `Debug report ${stamp} ${counter}.md`;
+	}
+	return app.vault.create(path, content);
+}
@@ -0,0 +1,21 @@
+import { LogEntry, LogFormatter, LogLevel, LogSink, SinkOptions } from './types';
+
+/**
+ * Common state for the built-in sinks
+ * Custom sinks can extend this or implement `LogSink` directly
+ */
+export abstract class BaseSink implements LogSink {
+    readonly name: string;
+    enabled: boolean;
+    minLevel: LogLevel;
+    formatter: LogFormatter;
+
+    constructor(name: string, defaultFormatter: LogFormatter, options: SinkOptions = {}) {
+        this.name = name;
+        this.enabled = options.enabled ?? true;
+        this.minLevel = options.minLevel ?? 'debug';
+        this.formatter = options.formatter ?? defaultFormatter;
+    }
+
+    abstract write(entry: LogEntry): void;
+}
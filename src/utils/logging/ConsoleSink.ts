@@ -0,0 +1,31 @@
+import { BaseSink } from './BaseSink';
+import { formatConsoleEntry } from './formatters';
+import { LogEntry, SinkOptions } from './types';
+
+/**
+ * Writes entries to the developer console with the matching console method
+ */
+export class ConsoleSink extends BaseSink {
+    constructor(options: SinkOptions = {}) {
+        super('console', formatConsoleEntry, options);
+    }
+
+    write(entry: LogEntry): void {
+        const text = this.formatter(entry);
+
+        switch (entry.level) {
+            case 'debug':
+                console.debug(text, ...entry.args);
+                break;
+            case 'info':
+                console.info(text, ...entry.args);
+                break;
+            case 'warn':
+                console.warn(text, ...entry.args);
+                break;
+            case 'error':
+                console.error(text, ...entry.args);
+                break;
+        }
+    }
+}
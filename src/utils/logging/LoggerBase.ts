@@ -0,0 +1,259 @@
+import { App } from 'obsidian';
+import { RedactionRule, Redactor } from './redaction';
+import { LogThrottle, ThrottleConfig } from './throttle';
+import { isLevelEnabled, LevelCounts, LevelCountsListener, LogEntry, LogLevel, LogSink } from './types';
+import { VaultFileSink, VaultFileSinkOptions } from './VaultFileSink';
+
+/**
+ * Output side of the Logger: throttling, redaction, sinks and file logging
+ * `Logger` adds components, level and tag filtering on top
+ */
+export abstract class LoggerBase {
+    private sinks: Map<string, LogSink> = new Map();
+    private redactor: Redactor = new Redactor();
+    private throttle: LogThrottle = new LogThrottle(entry => this.write(entry));
+    private levelCounts: LevelCounts = { debug: 0, info: 0, warn: 0, error: 0 };
+    private countListeners: Set<LevelCountsListener> = new Set();
+
+    /**
+     * Add a sink, replacing any existing sink with the same name
+     * 
+     * @example
+     * logger.addSink(new MemorySink({ capacity: 1000 }));
+     * logger.addSink(new VaultFileSink(app, 'warnings.txt', { minLevel: 'warn' }));
+     */
+    addSink(sink: LogSink): void {
+        void this.removeSink(sink.name);
+        this.sinks.set(sink.name, sink);
+    }
+
+    /**
+     * Remove a sink, flushing and disposing it first
+     * Resolves once the sink has written everything it buffered
+     */
+    async removeSink(name: string): Promise<void> {
+        const sink = this.sinks.get(name);
+        if (!sink) return;
+
+        // Pending repeat and drop summaries still go to the sink
+        this.throttle.flush();
+        this.sinks.delete(name);
+        try {
+            await sink.flush?.();
+            await sink.dispose?.();
+        } catch (error) {
+            console.error(`[Logger] Failed to dispose sink "${name}":`, error);
+        }
+    }
+
+    /**
+     * Get a sink by name, e.g. 'console', 'file' or 'memory'
+     */
+    getSink<T extends LogSink = LogSink>(name: string): T | undefined {
+        return this.sinks.get(name) as T | undefined;
+    }
+
+    /**
+     * Get all registered sinks
+     */
+    getSinks(): LogSink[] {
+        return Array.from(this.sinks.values());
+    }
+
+    /**
+     * Switch a sink on or off without removing it
+     */
+    setSinkEnabled(name: string, enabled: boolean): void {
+        const sink = this.sinks.get(name);
+        if (sink) sink.enabled = enabled;
+    }
+
+    /**
+     * Set the minimum level a sink receives (component levels still apply first)
+     */
+    setSinkLevel(name: string, level: LogLevel): void {
+        const sink = this.sinks.get(name);
+        if (sink) sink.minLevel = level;
+    }
+
+    /**
+     * Redaction applied to every entry before it reaches a sink
+     * Also useful for anything else that leaves the machine, e.g. debug reports
+     */
+    getRedactor(): Redactor {
+        return this.redactor;
+    }
+
+    /**
+     * Add a redaction rule, replacing any rule with the same name
+     * 
+     * @example
+     * // Mask values of `sessionId` properties
+     * logger.addRedactionRule({ name: 'session', keys: /^sessionId$/ });
+     * 
+     * // Replace the vault path in messages and string values
+     * logger.addRedactionRule(pathRule('vault-path', basePath, '<vault>'));
+     */
+    addRedactionRule(rule: RedactionRule): void {
+        this.redactor.addRule(rule);
+    }
+
+    removeRedactionRule(name: string): void {
+        this.redactor.removeRule(name);
+    }
+
+    /**
+     * Initialize file logging with the Obsidian app instance
+     * Shorthand for adding a `VaultFileSink` named 'file'
+     * 
+     * @example
+     * // Rotate at 512KB, keep 3 old files for at most a week, inside the plugin folder
+     * logger.initFileLogging(app, 'debug-log.txt', {
+     *     maxFileSize: 512 * 1024,
+     *     maxFiles: 3,
+     *     maxAgeDays: 7,
+     *     folder: `${plugin.manifest.dir}/logs`
+     * });
+     */
+    initFileLogging(app: App, logFileName: string = 'debug-log.txt', options: VaultFileSinkOptions = {}): void {
+        const sink = new VaultFileSink(app, logFileName, options);
+        const existing = this.sinks.get('file');
+
+        // Already logging to this file in this format - only update the limits
+        if (existing instanceof VaultFileSink
+            && existing.getFilePath() === sink.getFilePath()
+            && existing.getFormat() === sink.getFormat()) {
+            existing.setRetention(options);
+            existing.enabled = true;
+            return;
+        }
+
+        // Replacing the sink flushes pending entries to the old file first
+        this.addSink(sink);
+        sink.writeMarker('Plugin Debug Log Started');
+    }
+
+    /**
+     * Check whether entries are currently written to the log file
+     */
+    isFileLoggingEnabled(): boolean {
+        return this.sinks.get('file')?.enabled ?? false;
+    }
+
+    /**
+     * Disable file logging
+     * Resolves once all pending entries are on disk - await it in `onunload`
+     */
+    disableFileLogging(): Promise<void> {
+        return this.removeSink('file');
+    }
+
+    /**
+     * Deduplication and rate limits - only the given fields change
+     * 
+     * @example
+     * logger.setThrottleConfig({
+     *     defaultComponentLimit: { perSecond: 20, burst: 50 },
+     *     tagLimits: { 'vault:*': { perSecond: 5 } }
+     * });
+     */
+    setThrottleConfig(config: Partial<ThrottleConfig>): void {
+        this.throttle.configure(config);
+    }
+
+    getThrottleConfig(): ThrottleConfig {
+        return this.throttle.getConfig();
+    }
+
+    /**
+     * Manually flush all buffered sinks, including pending repeat and drop summaries
+     * Resolves once every sink has finished writing
+     */
+    async flush(): Promise<void> {
+        this.throttle.flush();
+        await Promise.all(this.getSinks().map(async sink => {
+            try {
+                await sink.flush?.();
+            } catch (error) {
+                console.error(`[Logger] Failed to flush sink "${sink.name}":`, error);
+            }
+        }));
+    }
+
+    /**
+     * Clear the log file buffer without writing to file
+     */
+    clearBuffer(): void {
+        const sink = this.sinks.get('file');
+        if (sink instanceof VaultFileSink) {
+            sink.clearBuffer();
+        }
+    }
+
+    /**
+     * Entries recorded this session per level
+     * Counted when they pass the Logger's filters, before deduplication and rate limits
+     */
+    getLevelCounts(): LevelCounts {
+        return { ...this.levelCounts };
+    }
+
+    /**
+     * Start counting from zero
+     */
+    resetLevelCounts(): void {
+        this.levelCounts = { debug: 0, info: 0, warn: 0, error: 0 };
+        this.notifyCounts();
+    }
+
+    /**
+     * Be told whenever a count changes, e.g. to keep a status display current
+     * Listeners must not log - they run inside the logging call
+     * 
+     * @returns Function that removes the listener
+     */
+    onLevelCountsChanged(listener: LevelCountsListener): () => void {
+        this.countListeners.add(listener);
+        return () => this.countListeners.delete(listener);
+    }
+
+    /**
+     * Hand an entry that passed the Logger's filters on, subject to deduplication and rate limits
+     */
+    protected dispatch(rawEntry: LogEntry): void {
+        this.levelCounts[rawEntry.level]++;
+        this.notifyCounts();
+        this.throttle.process(rawEntry);
+    }
+
+    private notifyCounts(): void {
+        if (this.countListeners.size === 0) return;
+
+        const counts = this.getLevelCounts();
+        for (const listener of this.countListeners) {
+            try {
+                listener(counts);
+            } catch (error) {
+                console.error('[Logger] Level count listener failed:', error);
+            }
+        }
+    }
+
+    /**
+     * Redact the entry, then hand it to every enabled sink whose minimum level it meets
+     * A failing sink is reported but never stops the others
+     */
+    private write(rawEntry: LogEntry): void {
+        const entry = this.redactor.redactEntry(rawEntry);
+
+        for (const sink of this.sinks.values()) {
+            if (!sink.enabled || !isLevelEnabled(entry.level, sink.minLevel)) continue;
+
+            try {
+                sink.write(entry);
+            } catch (error) {
+                console.error(`[Logger] Sink "${sink.name}" failed:`, error);
+            }
+        }
+    }
+}
@@ -0,0 +1,88 @@
+import { BaseSink } from './BaseSink';
+import { formatFileEntry } from './formatters';
+import { LogEntry, SinkOptions } from './types';
+
+/**
+ * Called for every entry the sink receives, or with `null` when it is cleared
+ */
+export type MemorySinkListener = (entry: LogEntry | null) => void;
+
+export interface MemorySinkOptions extends SinkOptions {
+    capacity?: number;   // Entries kept before the oldest are dropped (default: 500)
+}
+
+/**
+ * Keeps the most recent entries in a ring buffer
+ * Useful for log viewers and bug reports that need recent history without a file
+ */
+export class MemorySink extends BaseSink {
+    private entries: LogEntry[] = [];
+    private start: number = 0;
+    private capacity: number;
+    private listeners: Set<MemorySinkListener> = new Set();
+
+    constructor(options: MemorySinkOptions = {}, name: string = 'memory') {
+        super(name, formatFileEntry, options);
+        this.capacity = Math.max(1, options.capacity ?? 500);
+    }
+
+    write(entry: LogEntry): void {
+        if (this.entries.length < this.capacity) {
+            this.entries.push(entry);
+        } else {
+            // Overwrite the oldest entry
+            this.entries[this.start] = entry;
+            this.start = (this.start + 1) % this.capacity;
+        }
+
+        this.notify(entry);
+    }
+
+    /**
+     * Receive entries as they arrive (e.g. for a live log view)
+     * 
+     * @returns Function that removes the listener
+     */
+    subscribe(listener: MemorySinkListener): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    getCapacity(): number {
+        return this.capacity;
+    }
+
+    /**
+     * Buffered entries, oldest first
+     */
+    getEntries(): LogEntry[] {
+        return this.entries.slice(this.start).concat(this.entries.slice(0, this.start));
+    }
+
+    /**
+     * Buffered entries rendered with this sink's formatter
+     */
+    getLines(): string[] {
+        return this.getEntries().map(entry => this.formatter(entry));
+    }
+
+    clear(): void {
+        this.entries = [];
+        this.start = 0;
+        this.notify(null);
+    }
+
+    dispose(): void {
+        this.listeners.clear();
+    }
+
+    private notify(entry: LogEntry | null): void {
+        for (const listener of this.listeners) {
+            try {
+                listener(entry);
+            } catch (error) {
+                console.error('[Logger] Memory sink listener failed:', error);
+            }
+        }
+    }
+}
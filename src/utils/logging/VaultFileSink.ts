@@ -0,0 +1,246 @@
+import { App } from 'obsidian';
+import { BaseSink } from './BaseSink';
+import { formatFileEntry, formatJsonLineEntry } from './formatters';
+import { pruneRotatedFiles, rotatedPath, rotateFiles } from './logRotation';
+import { LogEntry, SinkOptions } from './types';
+
+/**
+ * Built-in file formats: readable text or JSON Lines (one JSON object per line)
+ */
+export type LogFileFormat = 'text' | 'jsonl';
+
+export interface VaultFileSinkOptions extends SinkOptions {
+    format?: LogFileFormat;   // Used when no custom formatter is given (default: 'text')
+    maxBufferSize?: number;   // Entries buffered before a flush is triggered (default: 10)
+    flushInterval?: number;   // Milliseconds before buffered entries are flushed anyway (default: 2000)
+    maxRetries?: number;      // Write attempts before entries are re-queued (default: 3)
+    maxFileSize?: number;     // Bytes before the file is rotated (default: 1MB)
+    maxFiles?: number;        // Rotated files kept next to the current one (default: 5)
+    maxAgeDays?: number;      // Rotated files older than this are deleted, 0 keeps them (default: 0)
+    folder?: string;          // Vault-relative folder for the log files (default: vault root)
+}
+
+const RETRY_DELAY = 200;           // Milliseconds, multiplied by the attempt number
+const MAX_PENDING = 1000;          // Entries kept while the file is unwritable
+
+/**
+ * Appends formatted entries to a file in the vault
+ * 
+ * Writes go through a single promise queue, so flushes never overlap and
+ * entries logged while a write is in flight wait for the next one.
+ */
+export class VaultFileSink extends BaseSink {
+    private app: App;
+    private logFilePath: string;
+    private pending: string[] = [];
+    private writeQueue: Promise<void> = Promise.resolve();
+    private flushTimer: ReturnType<typeof setTimeout> | null = null;
+    private disposed: boolean = false;
+    private maxBufferSize: number;
+    private flushInterval: number;
+    private maxRetries: number;
+    private maxFileSize: number = 1024 * 1024;
+    private maxFiles: number = 5;
+    private maxAgeDays: number = 0;
+    private folder: string;
+    private prepared: boolean = false;
+    private format: LogFileFormat;
+
+    constructor(app: App, logFileName: string, options: VaultFileSinkOptions = {}) {
+        super('file', options.format === 'jsonl' ? formatJsonLineEntry : formatFileEntry, options);
+        this.app = app;
+        this.format = options.format ?? 'text';
+        this.folder = (options.folder ?? '').replace(/^\/+|\/+$/g, '');
+        this.logFilePath = this.folder ? `${this.folder}/${logFileName}` : logFileName;
+        this.maxBufferSize = options.maxBufferSize ?? 10;
+        this.flushInterval = options.flushInterval ?? 2000;
+        this.maxRetries = Math.max(1, options.maxRetries ?? 3);
+        this.setRetention(options);
+    }
+
+    /**
+     * Vault-relative path of the current log file (folder included)
+     */
+    getFilePath(): string {
+        return this.logFilePath;
+    }
+
+    getFormat(): LogFileFormat {
+        return this.format;
+    }
+
+    /**
+     * Update size and age limits without recreating the sink
+     * Takes effect on the next write
+     */
+    setRetention(options: Pick<VaultFileSinkOptions, 'maxFileSize' | 'maxFiles' | 'maxAgeDays'>): void {
+        if (options.maxFileSize !== undefined) this.maxFileSize = Math.max(1024, options.maxFileSize);
+        if (options.maxFiles !== undefined) this.maxFiles = Math.max(0, Math.floor(options.maxFiles));
+        if (options.maxAgeDays !== undefined) this.maxAgeDays = Math.max(0, options.maxAgeDays);
+        this.prepared = false;
+    }
+
+    write(entry: LogEntry): void {
+        this.writeRaw(this.formatter(entry));
+    }
+
+    /**
+     * Write a session marker (e.g. "Plugin Debug Log Started") in the file's format
+     */
+    writeMarker(message: string): void {
+        this.writeRaw(this.formatMarker(message));
+    }
+
+    /**
+     * Write unformatted text
+     */
+    writeRaw(text: string): void {
+        if (this.disposed) return;
+
+        this.pending.push(text);
+
+        if (this.pending.length >= this.maxBufferSize) {
+            void this.flush();
+        } else {
+            this.scheduleFlush();
+        }
+    }
+
+    /**
+     * Clear the buffer without writing to file
+     */
+    clearBuffer(): void {
+        this.pending = [];
+        this.cancelFlushTimer();
+    }
+
+    /**
+     * Queue everything buffered so far for writing
+     * Resolves once all writes queued up to this point have finished
+     */
+    flush(): Promise<void> {
+        this.cancelFlushTimer();
+
+        if (this.pending.length > 0) {
+            // Take the entries now - anything logged during the write goes into a fresh buffer
+            const lines = this.pending;
+            this.pending = [];
+            this.writeQueue = this.writeQueue.then(() => this.writeWithRetry(lines));
+        }
+
+        return this.writeQueue;
+    }
+
+    /**
+     * Flush remaining entries and stop accepting new ones
+     */
+    async dispose(): Promise<void> {
+        this.disposed = true;
+        await this.flush();
+    }
+
+    private scheduleFlush(): void {
+        if (this.flushTimer !== null) return;
+
+        this.flushTimer = setTimeout(() => {
+            this.flushTimer = null;
+            void this.flush();
+        }, this.flushInterval);
+    }
+
+    private cancelFlushTimer(): void {
+        if (this.flushTimer !== null) {
+            clearTimeout(this.flushTimer);
+            this.flushTimer = null;
+        }
+    }
+
+    /**
+     * Never rejects - after the last failed attempt the entries go back
+     * to the front of the buffer so the next flush tries them again
+     */
+    private async writeWithRetry(lines: string[]): Promise<void> {
+        const content = lines.join('');
+
+        for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
+            try {
+                await this.appendToFile(content);
+                return;
+            } catch (error) {
+                if (attempt === this.maxRetries) {
+                    console.error(`[Logger] Failed to write log file after ${attempt} attempts:`, error);
+                    this.requeue(lines);
+                    return;
+                }
+                await new Promise(resolve => setTimeout(resolve, RETRY_DELAY * attempt));
+            }
+        }
+    }
+
+    private requeue(lines: string[]): void {
+        this.pending = lines.concat(this.pending);
+
+        if (this.pending.length > MAX_PENDING) {
+            const dropped = this.pending.length - MAX_PENDING;
+            this.pending = this.pending.slice(dropped);
+            console.error(`[Logger] Log file unwritable, dropped ${dropped} oldest entries`);
+        }
+
+        if (!this.disposed) {
+            this.scheduleFlush();
+        }
+    }
+
+    /**
+     * Create the log folder and apply retention limits before the first write
+     */
+    private async prepare(): Promise<void> {
+        if (this.prepared) return;
+
+        const adapter = this.app.vault.adapter;
+        if (this.folder && !(await adapter.exists(this.folder))) {
+            await adapter.mkdir(this.folder);
+        }
+        await pruneRotatedFiles(adapter, this.logFilePath, this.maxFiles, this.maxAgeDays);
+        this.prepared = true;
+    }
+
+    /**
+     * Only called from the write queue, so rotation and read-modify-write fallbacks are safe
+     */
+    private async appendToFile(content: string): Promise<void> {
+        const adapter = this.app.vault.adapter;
+        await this.prepare();
+
+        if (!(await adapter.exists(this.logFilePath))) {
+            await adapter.write(this.logFilePath, content);
+            return;
+        }
+
+        // stat.size is in bytes - content.length would count UTF-16 code units
+        const stat = await adapter.stat(this.logFilePath);
+        if (stat && stat.size + new TextEncoder().encode(content).length > this.maxFileSize) {
+            await rotateFiles(adapter, this.logFilePath, this.maxFiles);
+            await pruneRotatedFiles(adapter, this.logFilePath, this.maxFiles, this.maxAgeDays);
+
+            const previous = this.maxFiles > 0 ? rotatedPath(this.logFilePath, 1) : 'nothing (no rotated files kept)';
+            await adapter.write(this.logFilePath, this.formatMarker(`Log rotated, previous entries in ${previous}`) + content);
+            return;
+        }
+
+        // append() is missing on older Obsidian versions
+        if (typeof adapter.append === 'function') {
+            await adapter.append(this.logFilePath, content);
+        } else {
+            const existingContent = await adapter.read(this.logFilePath);
+            await adapter.write(this.logFilePath, existingContent + content);
+        }
+    }
+
+    private formatMarker(message: string): string {
+        if (this.format === 'jsonl') {
+            return formatJsonLineEntry({ timestamp: Date.now(), level: 'info', component: 'logger', message, args: [] });
+        }
+        return `[${new Date().toISOString()}] === ${message} ===\n`;
+    }
+}
@@ -0,0 +1,136 @@
+import { Span, SpanLogFunction, SpanTracker } from './spans';
+import { LogContext, LogLevel } from './types';
+
+/**
+ * Component names and the component logger interface
+ */
+
+/**
+ * Components every logger knows about
+ * Plugins add their own at runtime with `registerComponent`
+ */
+export type ComponentName =
+    | 'main'          // Plugin main class
+    | 'modal'         // Modal dialogs
+    | 'api'           // API calls
+    | 'settings'      // Settings management
+    | 'ui'            // UI components
+    | 'events'        // Event handling
+    | 'storage'       // Data store collections
+    | 'general';      // General/uncategorized
+
+/**
+ * Components a plugin registers, by name - declare them by declaration merging
+ * on the Logger module so `createLogger`, the `logger` singleton and the
+ * ErrorBoundary accept them. The values are unused.
+ *
+ * @example
+ * declare module './utils/Logger' {
+ *     interface RegisteredComponents {
+ *         sync: true;
+ *     }
+ * }
+ */
+export interface RegisteredComponents {}
+
+/**
+ * Built-in components plus the names declared in `RegisteredComponents`
+ */
+export type KnownComponent = ComponentName | Extract<keyof RegisteredComponents, string>;
+
+/**
+ * Level per component, keyed by every registered component name
+ */
+export type LoggerConfig<C extends string = ComponentName> = Record<C, LogLevel>;
+
+/**
+ * Tag-based filtering configuration
+ * Allows granular control within components (e.g., only show 'validation' debug from 'npe')
+ */
+export interface TagFilterConfig<C extends string = ComponentName> {
+    component: C;
+    level: LogLevel;
+    tags: string[];  // Only log messages with these tags
+}
+
+/**
+ * Options for a component added with `registerComponent`
+ */
+export interface ComponentOptions {
+    defaultLevel?: LogLevel;   // Level until configured otherwise (default: 'warn')
+    description?: string;      // Shown next to the component in the settings tab
+}
+
+/**
+ * Logger bound to one component, returned by `createLogger`
+ * Every level takes an optional tags array as the last argument
+ */
+export interface ComponentLogger {
+    debug(message: string, ...args: unknown[]): void;
+    diagnostic(message: string, ...args: unknown[]): void;   // Kept in production, see `Logger.diagnostic`
+    info(message: string, ...args: unknown[]): void;
+    warn(message: string, ...args: unknown[]): void;
+    error(message: string, ...args: unknown[]): void;
+    startSpan(name: string): Span;
+    withSpan<T>(name: string, fn: (span: Span) => T): T;
+
+    /**
+     * Logger for the same component that adds `fields` to every entry
+     * Chainable - fields of the parent are kept, same keys are overridden
+     */
+    child(fields: LogContext): ComponentLogger;
+}
+
+/**
+ * Default level - warnings and errors only
+ * Users can enable debug logging through settings if needed
+ */
+export const DEFAULT_LEVEL: LogLevel = 'warn';
+
+export const BUILT_IN_COMPONENTS: Record<ComponentName, ComponentOptions> = {
+    main: { description: 'Plugin main class' },
+    modal: { description: 'Modal dialogs' },
+    api: { description: 'API calls' },
+    settings: { description: 'Settings management' },
+    ui: { description: 'UI components' },
+    events: { description: 'Event handling' },
+    storage: { description: 'Data store collections' },
+    general: { description: 'General/uncategorized' }
+};
+
+/**
+ * Remove and return a trailing tags array (string[]) from the arguments
+ */
+export function popTags(args: unknown[]): string[] | undefined {
+    const lastArg = args[args.length - 1];
+    if (Array.isArray(lastArg) && lastArg.every(item => typeof item === 'string')) {
+        return args.pop() as string[];
+    }
+    return undefined;
+}
+
+/**
+ * Logger internals a component logger writes through
+ */
+export interface ComponentLoggerHost {
+    log: SpanLogFunction;   // Tags travel as a trailing string[] in `args`
+    diagnostic(component: string, message: string, tags: string[] | undefined, args: unknown[], context?: LogContext): void;
+    spans: SpanTracker;
+}
+
+/**
+ * Logger bound to `component`, adding `context` to every entry
+ */
+export function scopedComponentLogger(host: ComponentLoggerHost, component: string, context?: LogContext): ComponentLogger {
+    return {
+        debug: (message: string, ...args: unknown[]) => host.log(undefined, component, context, 'debug', message, args),
+        diagnostic: (message: string, ...args: unknown[]) => host.diagnostic(component, message, popTags(args), args, context),
+        info: (message: string, ...args: unknown[]) => host.log(undefined, component, context, 'info', message, args),
+        warn: (message: string, ...args: unknown[]) => host.log(undefined, component, context, 'warn', message, args),
+        error: (message: string, ...args: unknown[]) => host.log(undefined, component, context, 'error', message, args),
+        startSpan: (name: string) => host.spans.start(component, name, context),
+        withSpan: <T>(name: string, fn: (span: Span) => T) => host.spans.run(component, name, fn, context),
+        // Later fields override earlier ones with the same key
+        child: (fields: LogContext) => scopedComponentLogger(host, component, { ...context, ...fields })
+    };
+}
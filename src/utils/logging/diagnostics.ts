@@ -0,0 +1,80 @@
+/**
+ * Diagnostic mode: `logger.diagnostic` calls that stay in production builds
+ * and are logged only while the user has the mode switched on
+ */
+
+export interface DiagnosticModeState {
+    active: boolean;
+    until: number | null;   // Milliseconds since epoch, null = until switched off or the plugin unloads
+}
+
+export type DiagnosticModeListener = (state: DiagnosticModeState) => void;
+
+/**
+ * Tag added to every entry logged by a diagnostic call
+ */
+export const DIAGNOSTIC_TAG = 'diagnostic';
+
+export class DiagnosticMode {
+    private active = false;
+    private until: number | null = null;
+    private expiryTimer: ReturnType<typeof setTimeout> | null = null;
+    private listeners: Set<DiagnosticModeListener> = new Set();
+
+    /**
+     * Switch on for `durationMs`, or until switched off when no duration is given
+     * Calling it again while active replaces the previous duration
+     */
+    enable(durationMs?: number): void {
+        this.clearTimer();
+        this.active = true;
+        this.until = durationMs !== undefined ? Date.now() + durationMs : null;
+        if (durationMs !== undefined) {
+            this.expiryTimer = setTimeout(() => this.disable(), durationMs);
+        }
+        this.notify();
+    }
+
+    disable(): void {
+        this.clearTimer();
+        if (!this.active) return;
+        this.active = false;
+        this.until = null;
+        this.notify();
+    }
+
+    isActive(): boolean {
+        return this.active;
+    }
+
+    getState(): DiagnosticModeState {
+        return { active: this.active, until: this.until };
+    }
+
+    /**
+     * Called when the mode is switched on or off, including when it expires
+     * Returns a function that removes the listener
+     */
+    onChange(listener: DiagnosticModeListener): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    private clearTimer(): void {
+        if (this.expiryTimer) {
+            clearTimeout(this.expiryTimer);
+            this.expiryTimer = null;
+        }
+    }
+
+    private notify(): void {
+        const state = this.getState();
+        for (const listener of this.listeners) {
+            try {
+                listener(state);
+            } catch (error) {
+                console.error('[Logger] Diagnostic mode listener failed:', error);
+            }
+        }
+    }
+}
@@ -0,0 +1,71 @@
+import { safeStringify } from './serialize';
+import { LogContext, LogEntry } from './types';
+
+/**
+ * Component prefix, optional tags and span, message and context fields,
+ * e.g. `[API][sync][k3x9a0qe sync > upload] Retrying {file=notes/a.md attempt=2}`
+ */
+export function formatMessage(entry: LogEntry): string {
+    const tagStr = entry.tags && entry.tags.length > 0 ? `[${entry.tags.join(',')}]` : '';
+    const spanStr = entry.correlationId
+        ? `[${entry.span ? `${entry.correlationId} ${entry.span}` : entry.correlationId}]`
+        : '';
+    const contextStr = entry.context ? formatContext(entry.context) : '';
+    return `[${entry.component.toUpperCase()}]${tagStr}${spanStr} ${entry.message}${contextStr ? ' ' + contextStr : ''}`;
+}
+
+/**
+ * Context fields as `{key=value ...}` - strings are quoted only when they contain spaces
+ */
+export function formatContext(context: LogContext): string {
+    const fields = Object.keys(context).map(key => {
+        const value = context[key];
+        const text = typeof value === 'string' && !/[\s{}="]/.test(value) ? value : safeStringify(value);
+        return `${key}=${text}`;
+    });
+    return fields.length > 0 ? `{${fields.join(' ')}}` : '';
+}
+
+/**
+ * Console output - arguments are passed to console.* separately so DevTools can inspect them
+ */
+export function formatConsoleEntry(entry: LogEntry): string {
+    return formatMessage(entry);
+}
+
+/**
+ * File output with timestamp and structured JSON arguments
+ * Arguments go through the safe serializer, so errors, cycles and DOM nodes never break a line
+ */
+export function formatFileEntry(entry: LogEntry): string {
+    const timestamp = new Date(entry.timestamp).toISOString();
+    const formattedMessage = formatMessage(entry);
+
+    let result = `[${timestamp}] [${entry.level.toUpperCase()}] ${formattedMessage}`;
+
+    if (entry.args.length > 0) {
+        result += '\n  Arguments: ' + safeStringify(entry.args, 2);
+    }
+
+    result += '\n';
+    return result;
+}
+
+/**
+ * JSON Lines output - one self-contained JSON object per entry
+ * 
+ * @example
+ * {"timestamp":"2025-02-17T10:30:45.000Z","level":"warn","component":"api","tags":["sync"],"message":"Retrying","args":[{"attempt":2}]}
+ */
+export function formatJsonLineEntry(entry: LogEntry): string {
+    return safeStringify({
+        timestamp: new Date(entry.timestamp).toISOString(),
+        level: entry.level,
+        component: entry.component,
+        tags: entry.tags ?? [],
+        ...(entry.correlationId ? { correlationId: entry.correlationId, span: entry.span } : {}),
+        message: entry.message,
+        ...(entry.context ? { context: entry.context } : {}),
+        args: entry.args
+    }) + '\n';
+}
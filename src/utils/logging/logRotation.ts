@@ -0,0 +1,91 @@
+import { DataAdapter } from 'obsidian';
+
+/**
+ * Log file rotation helpers
+ * `debug-log.txt` rolls to `debug-log.1.txt` (newest) ... `debug-log.N.txt` (oldest)
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Split a path into folder, base name and extension
+ */
+function splitPath(path: string): { folder: string; base: string; ext: string } {
+    const slash = path.lastIndexOf('/');
+    const folder = slash >= 0 ? path.slice(0, slash) : '';
+    const fileName = path.slice(slash + 1);
+    const dot = fileName.lastIndexOf('.');
+    return dot > 0
+        ? { folder, base: fileName.slice(0, dot), ext: fileName.slice(dot) }
+        : { folder, base: fileName, ext: '' };
+}
+
+/**
+ * Path of the rotated file with the given index, e.g. `logs/debug-log.2.txt`
+ */
+export function rotatedPath(path: string, index: number): string {
+    const { folder, base, ext } = splitPath(path);
+    const fileName = `${base}.${index}${ext}`;
+    return folder ? `${folder}/${fileName}` : fileName;
+}
+
+/**
+ * Shift every rotated file up by one and move the current file to index 1
+ * The oldest file drops off once `maxFiles` are kept
+ */
+export async function rotateFiles(adapter: DataAdapter, path: string, maxFiles: number): Promise<void> {
+    if (maxFiles <= 0) {
+        await adapter.remove(path);
+        return;
+    }
+
+    const oldest = rotatedPath(path, maxFiles);
+    if (await adapter.exists(oldest)) {
+        await adapter.remove(oldest);
+    }
+
+    for (let index = maxFiles - 1; index >= 1; index--) {
+        const from = rotatedPath(path, index);
+        if (await adapter.exists(from)) {
+            await adapter.rename(from, rotatedPath(path, index + 1));
+        }
+    }
+
+    await adapter.rename(path, rotatedPath(path, 1));
+}
+
+/**
+ * Delete rotated files beyond `maxFiles` and, when `maxAgeDays` is set,
+ * files last modified longer ago than that. The current file is never pruned.
+ * 
+ * @returns Paths of the deleted files
+ */
+export async function pruneRotatedFiles(adapter: DataAdapter, path: string, maxFiles: number, maxAgeDays: number): Promise<string[]> {
+    const { folder, base, ext } = splitPath(path);
+    const listing = await adapter.list(folder || '/');
+    const pattern = new RegExp(`^${escapeRegExp(base)}\\.(\\d+)${escapeRegExp(ext)}$`);
+    const cutoff = maxAgeDays > 0 ? Date.now() - maxAgeDays * DAY_MS : null;
+    const removed: string[] = [];
+
+    for (const filePath of listing.files) {
+        const match = pattern.exec(filePath.slice(filePath.lastIndexOf('/') + 1));
+        if (!match) continue;
+
+        let expired = Number(match[1]) > maxFiles;
+        if (!expired && cutoff !== null) {
+            const stat = await adapter.stat(filePath);
+            expired = stat !== null && stat.mtime < cutoff;
+        }
+
+        if (expired) {
+            await adapter.remove(filePath);
+            removed.push(filePath);
+        }
+    }
+
+    return removed;
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,187 @@
+import { toSerializable } from './serialize';
+import { LogEntry } from './types';
+
+/**
+ * Redaction of sensitive values in log entries
+ * Applied by the Logger before any sink sees an entry
+ */
+
+export interface RedactionRule {
+    name: string;
+    keys?: RegExp;            // Mask the whole value of properties whose name matches
+    pattern?: RegExp;         // Replace matches inside strings (messages, string values, error text)
+    replacement?: string;     // Default: '[REDACTED]'
+}
+
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Rules active by default
+ */
+export const DEFAULT_REDACTION_RULES: RedactionRule[] = [
+    { name: 'secret-keys', keys: /token|secret|password|passwd|api[-_]?key|authorization|cookie/i },
+    { name: 'bearer-token', pattern: /\bBearer\s+[A-Za-z0-9\-._~+/]+=*/g, replacement: 'Bearer [REDACTED]' },
+    { name: 'email', pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g, replacement: '[EMAIL]' }
+];
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Rule that replaces an absolute path (e.g. the vault folder) with a placeholder
+ * Matches both slash styles so Windows paths are caught too
+ */
+export function pathRule(name: string, path: string, placeholder: string): RedactionRule {
+    const trimmed = path.replace(/[\\/]+$/, '');
+    const source = trimmed.split(/[\\/]+/).map(escapeRegExp).join('[\\\\/]+');
+    return { name, pattern: new RegExp(source, 'gi'), replacement: placeholder };
+}
+
+export class Redactor {
+    private rules: Map<string, RedactionRule> = new Map();
+
+    constructor(rules: RedactionRule[] = DEFAULT_REDACTION_RULES) {
+        for (const rule of rules) {
+            this.addRule(rule);
+        }
+    }
+
+    /**
+     * Add a rule, replacing any rule with the same name
+     */
+    addRule(rule: RedactionRule): void {
+        // Global flag is required for replace-all behaviour
+        const pattern = rule.pattern && !rule.pattern.global
+            ? new RegExp(rule.pattern.source, rule.pattern.flags + 'g')
+            : rule.pattern;
+        this.rules.set(rule.name, { ...rule, pattern });
+    }
+
+    removeRule(name: string): void {
+        this.rules.delete(name);
+    }
+
+    getRules(): RedactionRule[] {
+        return Array.from(this.rules.values());
+    }
+
+    /**
+     * Copy of the entry with message, context fields and arguments redacted
+     */
+    redactEntry(entry: LogEntry): LogEntry {
+        if (this.rules.size === 0) return entry;
+
+        const redacted: LogEntry = {
+            ...entry,
+            message: this.redactString(entry.message),
+            args: entry.args.map(arg => this.redactValue(arg))
+        };
+        if (entry.context) {
+            redacted.context = this.redactValue(entry.context) as LogEntry['context'];
+        }
+        return redacted;
+    }
+
+    redactString(text: string): string {
+        let result = text;
+        for (const rule of this.rules.values()) {
+            if (rule.pattern) {
+                result = result.replace(rule.pattern, rule.replacement ?? REDACTED);
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Deep copy of plain objects, arrays, Maps, Sets and errors with sensitive values replaced
+     * Other class instances are serialized first (see serialize.ts) and the result redacted,
+     * so secrets held by a settings object or request wrapper are masked too
+     */
+    redactValue(value: unknown, seen: WeakMap<object, unknown> = new WeakMap()): unknown {
+        if (typeof value === 'string') return this.redactString(value);
+        if (value === null || typeof value !== 'object') return value;
+
+        const existing = seen.get(value);
+        if (existing !== undefined) return existing;
+
+        if (Array.isArray(value)) {
+            const copy: unknown[] = [];
+            seen.set(value, copy);
+            for (const item of value) copy.push(this.redactValue(item, seen));
+            return copy;
+        }
+
+        if (value instanceof Map) {
+            const copy = new Map<unknown, unknown>();
+            seen.set(value, copy);
+            for (const [key, item] of value) {
+                copy.set(key, typeof key === 'string' && this.isSecretKey(key) ? this.maskFor(key) : this.redactValue(item, seen));
+            }
+            return copy;
+        }
+
+        if (value instanceof Set) {
+            const copy = new Set<unknown>();
+            seen.set(value, copy);
+            for (const item of value) copy.add(this.redactValue(item, seen));
+            return copy;
+        }
+
+        if (value instanceof Error) {
+            // Keep the prototype so formatters still recognise the error
+            const copy = Object.create(Object.getPrototypeOf(value)) as Error;
+            seen.set(value, copy);
+            copy.message = this.redactString(value.message);
+            copy.stack = value.stack !== undefined ? this.redactString(value.stack) : undefined;
+            this.copyProperties(value, copy, seen);
+            const cause = (value as Error & { cause?: unknown }).cause;
+            if (cause !== undefined) {
+                (copy as Error & { cause?: unknown }).cause = this.redactValue(cause, seen);
+            }
+            return copy;
+        }
+
+        // Nothing secret in these - keep them as they are for the formatters
+        if (value instanceof Date || value instanceof RegExp) return value;
+
+        const proto = Object.getPrototypeOf(value);
+        if (proto !== Object.prototype && proto !== null) {
+            // DOM nodes, Obsidian files and the App become short summaries instead of being walked
+            const serialized = this.redactValue(toSerializable(value), seen);
+            seen.set(value, serialized);
+            return serialized;
+        }
+
+        const copy: Record<string, unknown> = {};
+        seen.set(value, copy);
+        this.copyProperties(value, copy, seen);
+        return copy;
+    }
+
+    private copyProperties(source: object, target: object, seen: WeakMap<object, unknown>): void {
+        for (const [key, item] of Object.entries(source)) {
+            (target as Record<string, unknown>)[key] = this.isSecretKey(key)
+                ? this.maskFor(key)
+                : this.redactValue(item, seen);
+        }
+    }
+
+    private isSecretKey(key: string): boolean {
+        return this.findKeyRule(key) !== undefined;
+    }
+
+    private maskFor(key: string): string {
+        return this.findKeyRule(key)?.replacement ?? REDACTED;
+    }
+
+    private findKeyRule(key: string): RedactionRule | undefined {
+        for (const rule of this.rules.values()) {
+            if (rule.keys) {
+                rule.keys.lastIndex = 0;
+                if (rule.keys.test(key)) return rule;
+            }
+        }
+        return undefined;
+    }
+}
@@ -0,0 +1,188 @@
+/**
+ * Safe serialization of log arguments
+ * 
+ * Turns arbitrary values into plain JSON-compatible data:
+ * - Errors keep name, message, stack and cause
+ * - Circular references become `[Circular ~path]` markers
+ * - DOM nodes and Obsidian files are summarized instead of walked
+ * - Map and Set are expanded
+ * - Deep, long and wide values are truncated
+ */
+
+export interface SerializeOptions {
+    maxDepth?: number;          // Nesting levels before values are summarized (default: 6)
+    maxStringLength?: number;   // Characters per string (default: 2000)
+    maxArrayLength?: number;    // Items per array, Map or Set (default: 100)
+    maxKeys?: number;           // Properties per object (default: 100)
+}
+
+type Limits = Required<SerializeOptions>;
+
+const DEFAULT_LIMITS: Limits = {
+    maxDepth: 6,
+    maxStringLength: 2000,
+    maxArrayLength: 100,
+    maxKeys: 100
+};
+
+/**
+ * Convert a value into JSON-compatible data
+ */
+export function toSerializable(value: unknown, options: SerializeOptions = {}): unknown {
+    const limits = { ...DEFAULT_LIMITS, ...options };
+    return convert(value, limits, 0, '~', new Map());
+}
+
+/**
+ * JSON.stringify that never throws
+ */
+export function safeStringify(value: unknown, space?: number, options: SerializeOptions = {}): string {
+    try {
+        return JSON.stringify(toSerializable(value, options), null, space) ?? 'undefined';
+    } catch (error) {
+        return `"[Unserializable: ${String(error)}]"`;
+    }
+}
+
+function convert(value: unknown, limits: Limits, depth: number, path: string, seen: Map<object, string>): unknown {
+    switch (typeof value) {
+        case 'string':
+            return truncateString(value, limits.maxStringLength);
+        case 'number':
+            return Number.isFinite(value) ? value : String(value);
+        case 'boolean':
+            return value;
+        case 'undefined':
+            return '[undefined]';
+        case 'bigint':
+            return `${value.toString()}n`;
+        case 'symbol':
+            return value.toString();
+        case 'function':
+            return `[Function ${value.name || 'anonymous'}]`;
+    }
+
+    if (value === null) return null;
+
+    const obj = value as object;
+
+    // Cheap summaries first - these never recurse
+    const summary = summarize(obj);
+    if (summary !== undefined) return summary;
+
+    const seenAt = seen.get(obj);
+    if (seenAt !== undefined) return `[Circular ${seenAt}]`;
+
+    if (depth >= limits.maxDepth) {
+        return Array.isArray(obj) ? `[Array(${obj.length})]` : `[${typeName(obj)}]`;
+    }
+
+    seen.set(obj, path);
+    try {
+        return convertObject(obj, limits, depth, path, seen);
+    } finally {
+        // Only ancestors count as cycles - the same object twice side by side is fine
+        seen.delete(obj);
+    }
+}
+
+function convertObject(obj: object, limits: Limits, depth: number, path: string, seen: Map<object, string>): unknown {
+    const child = (item: unknown, key: string | number) => convert(item, limits, depth + 1, `${path}.${key}`, seen);
+
+    if (obj instanceof Error) {
+        const result: Record<string, unknown> = {
+            name: obj.name,
+            message: truncateString(obj.message, limits.maxStringLength),
+            stack: obj.stack
+        };
+        const cause = (obj as Error & { cause?: unknown }).cause;
+        if (cause !== undefined) result.cause = child(cause, 'cause');
+        // Custom fields such as `code` or `status`
+        for (const key of Object.keys(obj)) {
+            if (!(key in result)) result[key] = child((obj as unknown as Record<string, unknown>)[key], key);
+        }
+        return result;
+    }
+
+    if (Array.isArray(obj)) {
+        return limitList(obj, limits.maxArrayLength).map((item, index) => child(item, index));
+    }
+
+    // `size` shows how many entries were cut off
+    if (obj instanceof Map) {
+        const entries = Array.from(obj.entries()).slice(0, limits.maxArrayLength);
+        return { $type: 'Map', size: obj.size, entries: entries.map(([key, item], index) => [child(key, index), child(item, index)]) };
+    }
+
+    if (obj instanceof Set) {
+        const values = Array.from(obj.values()).slice(0, limits.maxArrayLength);
+        return { $type: 'Set', size: obj.size, values: values.map((item, index) => child(item, index)) };
+    }
+
+    const keys = Object.keys(obj);
+    const result: Record<string, unknown> = {};
+    for (const key of keys.slice(0, limits.maxKeys)) {
+        result[key] = child((obj as Record<string, unknown>)[key], key);
+    }
+    if (keys.length > limits.maxKeys) {
+        result['…'] = `${keys.length - limits.maxKeys} more keys`;
+    }
+    return result;
+}
+
+/**
+ * Short descriptions for values that should never be walked
+ */
+function summarize(obj: object): unknown {
+    if (obj instanceof Date) {
+        return isNaN(obj.getTime()) ? 'Invalid Date' : obj.toISOString();
+    }
+
+    if (obj instanceof RegExp) {
+        return obj.toString();
+    }
+
+    if (typeof Node !== 'undefined' && obj instanceof Node) {
+        return describeNode(obj);
+    }
+
+    // Obsidian files and folders (duck-typed so this works without the obsidian runtime)
+    const file = obj as { path?: unknown; vault?: unknown; children?: unknown; extension?: unknown };
+    if (typeof file.path === 'string' && file.vault !== undefined) {
+        if (Array.isArray(file.children)) return { $type: 'TFolder', path: file.path };
+        if (typeof file.extension === 'string') return { $type: 'TFile', path: file.path };
+    }
+
+    // The App, Vault and Workspace objects reference everything else
+    const app = obj as { vault?: unknown; workspace?: unknown; metadataCache?: unknown };
+    if (app.vault !== undefined && app.workspace !== undefined && app.metadataCache !== undefined) {
+        return '[App]';
+    }
+
+    return undefined;
+}
+
+function describeNode(node: Node): string {
+    if (node instanceof Element) {
+        const id = node.id ? `#${node.id}` : '';
+        const classes = Array.from(node.classList).map(cls => `.${cls}`).join('');
+        return `<${node.tagName.toLowerCase()}${id}${classes}>`;
+    }
+    if (node.nodeType === Node.TEXT_NODE) {
+        return `#text "${truncateString(node.textContent ?? '', 50)}"`;
+    }
+    return `[${node.nodeName}]`;
+}
+
+function limitList(items: unknown[], max: number): unknown[] {
+    if (items.length <= max) return items;
+    return [...items.slice(0, max), `… ${items.length - max} more items`];
+}
+
+function truncateString(text: string, max: number): string {
+    return text.length > max ? `${text.slice(0, max)}…(+${text.length - max} chars)` : text;
+}
+
+function typeName(obj: object): string {
+    return obj.constructor?.name || 'Object';
+}
@@ -0,0 +1,240 @@
+import { LogContext, LogLevel } from './types';
+
+/**
+ * Timing spans and correlation IDs
+ *
+ * A span measures one operation. Entries logged inside it carry the correlation ID
+ * of the outermost span, so a whole operation can be followed through the log.
+ * Ending a span logs its duration and outcome.
+ *
+ * Nesting:
+ * - `span.startSpan()` / `span.withSpan()` always nest under `span`
+ * - `logger.startSpan()` / `logger.withSpan()` nest under the span whose `withSpan`
+ *   callback is running. After the first `await` that is no longer known - log
+ *   through the span object passed to the callback to keep the correlation ID.
+ */
+
+export type SpanOutcome = 'success' | 'error';
+
+export interface Span {
+    readonly id: string;              // Empty for disabled spans
+    readonly correlationId: string;   // Id of the outermost span
+    readonly name: string;            // Path from the outermost span, e.g. `sync > upload`
+
+    // Same signature as the component loggers: a trailing string[] is taken as tags
+    debug(message: string, ...args: unknown[]): void;
+    info(message: string, ...args: unknown[]): void;
+    warn(message: string, ...args: unknown[]): void;
+    error(message: string, ...args: unknown[]): void;
+
+    /**
+     * Start a child span - end it with `end()`
+     */
+    startSpan(name: string): Span;
+
+    /**
+     * Run `fn` in a child span that ends when `fn` returns or its promise settles
+     */
+    withSpan<T>(name: string, fn: (span: Span) => T): T;
+
+    /**
+     * Log duration and outcome - pass the error for a failed operation
+     * Returns the duration in milliseconds; ending twice has no effect
+     */
+    end(error?: unknown): number;
+}
+
+/**
+ * Writes an entry logged through a span - `span` is undefined for disabled spans
+ * A trailing string[] in `args` holds the tags
+ */
+export type SpanLogFunction = (span: Span | undefined, component: string, context: LogContext | undefined, level: LogLevel, message: string, args: unknown[]) => void;
+
+interface SpanHost {
+    logInSpan: SpanLogFunction;
+    enterSpan(span: Span): void;
+    exitSpan(span: Span): void;
+}
+
+function createSpanId(): string {
+    return (Math.random().toString(36) + '00000000').slice(2, 10);
+}
+
+function now(): number {
+    return typeof performance !== 'undefined' ? performance.now() : Date.now();
+}
+
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+    return typeof (value as PromiseLike<unknown> | null)?.then === 'function';
+}
+
+/**
+ * Run `fn` inside `span` and end the span with the outcome
+ * Errors are logged with the span and rethrown
+ */
+function runSpan<T>(host: SpanHost, span: Span, fn: (span: Span) => T): T {
+    let result: T;
+
+    host.enterSpan(span);
+    try {
+        result = fn(span);
+    } catch (error) {
+        span.end(error);
+        throw error;
+    } finally {
+        host.exitSpan(span);
+    }
+
+    if (isPromiseLike(result)) {
+        return result.then(
+            value => {
+                span.end();
+                return value;
+            },
+            error => {
+                span.end(error);
+                throw error;
+            }
+        ) as unknown as T;
+    }
+
+    span.end();
+    return result;
+}
+
+/**
+ * Span used in development builds
+ */
+class ActiveSpan implements Span {
+    readonly id: string = createSpanId();
+    readonly correlationId: string;
+    readonly name: string;
+    private startedAt: number = now();
+    private duration: number | null = null;
+
+    constructor(private host: SpanHost, private component: string, private context: LogContext | undefined, name: string, parent?: Span) {
+        this.correlationId = parent?.correlationId || this.id;
+        this.name = parent?.name ? `${parent.name} > ${name}` : name;
+    }
+
+    debug(message: string, ...args: unknown[]): void {
+        this.host.logInSpan(this, this.component, this.context, 'debug', message, args);
+    }
+
+    info(message: string, ...args: unknown[]): void {
+        this.host.logInSpan(this, this.component, this.context, 'info', message, args);
+    }
+
+    warn(message: string, ...args: unknown[]): void {
+        this.host.logInSpan(this, this.component, this.context, 'warn', message, args);
+    }
+
+    error(message: string, ...args: unknown[]): void {
+        this.host.logInSpan(this, this.component, this.context, 'error', message, args);
+    }
+
+    startSpan(name: string): Span {
+        return new ActiveSpan(this.host, this.component, this.context, name, this);
+    }
+
+    withSpan<T>(name: string, fn: (span: Span) => T): T {
+        return runSpan(this.host, this.startSpan(name), fn);
+    }
+
+    end(error?: unknown): number {
+        if (this.duration !== null) return this.duration;
+
+        this.duration = Math.round((now() - this.startedAt) * 10) / 10;
+        const outcome: SpanOutcome = error === undefined ? 'success' : 'error';
+        const details = { durationMs: this.duration, outcome };
+
+        if (outcome === 'success') {
+            this.host.logInSpan(this, this.component, this.context, 'debug', `${this.name} finished in ${this.duration}ms`, [details, ['span']]);
+        } else {
+            this.host.logInSpan(this, this.component, this.context, 'error', `${this.name} failed after ${this.duration}ms`, [details, error, ['span']]);
+        }
+
+        return this.duration;
+    }
+}
+
+/**
+ * Span used in production builds
+ * No ids, timing or end entries - messages are logged as if no span existed
+ */
+class DisabledSpan implements Span {
+    readonly id = '';
+    readonly correlationId = '';
+    readonly name = '';
+
+    constructor(private host: SpanHost, private component: string, private context?: LogContext) {}
+
+    debug(): void {
+        // Debug output is removed from production builds
+    }
+
+    info(message: string, ...args: unknown[]): void {
+        this.host.logInSpan(undefined, this.component, this.context, 'info', message, args);
+    }
+
+    warn(message: string, ...args: unknown[]): void {
+        this.host.logInSpan(undefined, this.component, this.context, 'warn', message, args);
+    }
+
+    error(message: string, ...args: unknown[]): void {
+        this.host.logInSpan(undefined, this.component, this.context, 'error', message, args);
+    }
+
+    startSpan(): Span {
+        return this;
+    }
+
+    withSpan<T>(_name: string, fn: (span: Span) => T): T {
+        return fn(this);
+    }
+
+    end(): number {
+        return 0;
+    }
+}
+
+/**
+ * Creates spans and tracks those whose `withSpan` callback is running
+ * `enabled` is checked per span, so production builds only ever create disabled spans
+ */
+export class SpanTracker {
+    private active: Span[] = [];
+    private host: SpanHost;
+
+    constructor(private enabled: () => boolean, log: SpanLogFunction) {
+        this.host = {
+            logInSpan: log,
+            enterSpan: span => {
+                this.active.push(span);
+            },
+            exitSpan: span => {
+                const index = this.active.lastIndexOf(span);
+                if (index !== -1) this.active.splice(index, 1);
+            }
+        };
+    }
+
+    /**
+     * Innermost running span, if any
+     */
+    current(): Span | undefined {
+        return this.active[this.active.length - 1];
+    }
+
+    start(component: string, name: string, context?: LogContext): Span {
+        if (!this.enabled()) return new DisabledSpan(this.host, component, context);
+
+        return new ActiveSpan(this.host, component, context, name, this.current());
+    }
+
+    run<T>(component: string, name: string, fn: (span: Span) => T, context?: LogContext): T {
+        if (!this.enabled()) return fn(new DisabledSpan(this.host, component, context));
+
+        return runSpan(this.host, this.start(component, name, context), fn);
+    }
+}
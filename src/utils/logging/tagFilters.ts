@@ -0,0 +1,163 @@
+import { isLevelEnabled, LOG_LEVELS, LogLevel } from './types';
+
+/**
+ * Tag filtering within a component
+ *
+ * Tags are hierarchical, with segments separated by ':' (e.g. `sync:conflict:remote`).
+ * Patterns:
+ * - `sync`             - the tag itself and everything below it (`sync:conflict`, ...)
+ * - `sync:*:remote`    - `*` matches exactly one segment
+ * - `sync:conflict:*`  - a trailing `*` matches one or more segments
+ */
+
+export interface TagFilterOptions {
+    include?: string[];                    // Debug messages need one of these tags (empty = no restriction)
+    exclude?: string[];                    // Messages with one of these tags are dropped at every level
+    tagLevels?: Record<string, LogLevel>;  // Minimum level for messages with matching tags, replaces the component level
+}
+
+/**
+ * Check whether a tag matches a pattern
+ */
+export function matchesTagPattern(pattern: string, tag: string): boolean {
+    const patternParts = pattern.split(':');
+    const tagParts = tag.split(':');
+
+    for (let index = 0; index < patternParts.length; index++) {
+        const part = patternParts[index];
+        const isLast = index === patternParts.length - 1;
+
+        if (part === '*') {
+            // Trailing wildcard: one or more remaining segments
+            if (isLast) return tagParts.length > index;
+            if (index >= tagParts.length) return false;
+            continue;
+        }
+
+        if (tagParts[index] !== part) return false;
+    }
+
+    // Plain prefix - also matches descendants
+    return true;
+}
+
+function matchesAny(patterns: string[], tags: string[]): boolean {
+    return tags.some(tag => patterns.some(pattern => matchesTagPattern(pattern, tag)));
+}
+
+/**
+ * Compiled filter for one component
+ */
+export class TagFilter {
+    private include: string[];
+    private exclude: string[];
+    private tagLevels: [string, LogLevel][];
+
+    constructor(options: TagFilterOptions) {
+        this.include = [...(options.include ?? [])];
+        this.exclude = [...(options.exclude ?? [])];
+        this.tagLevels = Object.entries(options.tagLevels ?? {});
+    }
+
+    isEmpty(): boolean {
+        return this.include.length === 0 && this.exclude.length === 0 && this.tagLevels.length === 0;
+    }
+
+    toOptions(): TagFilterOptions {
+        return {
+            include: [...this.include],
+            exclude: [...this.exclude],
+            tagLevels: this.tagLevels.reduce<Record<string, LogLevel>>((levels, [pattern, level]) => {
+                levels[pattern] = level;
+                return levels;
+            }, {})
+        };
+    }
+
+    getInclude(): string[] {
+        return [...this.include];
+    }
+
+    /**
+     * Decide whether a message passes
+     *
+     * 1. Excluded tags drop the message at every level
+     * 2. Matching tag levels replace the component level (the most permissive one wins)
+     * 3. Include patterns restrict debug messages, as before tags existed on other levels
+     */
+    allows(level: LogLevel, componentLevel: LogLevel, tags: string[] | undefined): boolean {
+        const messageTags = tags ?? [];
+
+        if (this.exclude.length > 0 && matchesAny(this.exclude, messageTags)) {
+            return false;
+        }
+
+        if (!isLevelEnabled(level, this.effectiveLevel(componentLevel, messageTags))) {
+            return false;
+        }
+
+        if (level === 'debug' && this.include.length > 0) {
+            return matchesAny(this.include, messageTags);
+        }
+
+        return true;
+    }
+
+    /**
+     * Lowest level any matching tag allows, or the component level when none matches
+     */
+    effectiveLevel(componentLevel: LogLevel, tags: string[]): LogLevel {
+        let best: LogLevel | null = null;
+
+        for (const [pattern, tagLevel] of this.tagLevels) {
+            if (!tags.some(tag => matchesTagPattern(pattern, tag))) continue;
+            if (best === null || LOG_LEVELS.indexOf(tagLevel) < LOG_LEVELS.indexOf(best)) {
+                best = tagLevel;
+            }
+        }
+
+        return best ?? componentLevel;
+    }
+}
+
+/**
+ * Parse the compact tag filter text used in the settings tab
+ * 
+ * - `validation`          include (debug messages need one of the included tags)
+ * - `-rendering`          exclude at every level
+ * - `sync:conflict:*=debug`  minimum level for matching tags
+ * 
+ * @example
+ * parseTagFilterSpec('validation, -rendering, sync:*=debug')
+ * // { include: ['validation'], exclude: ['rendering'], tagLevels: { 'sync:*': 'debug' } }
+ */
+export function parseTagFilterSpec(spec: string): TagFilterOptions {
+    const options: Required<TagFilterOptions> = { include: [], exclude: [], tagLevels: {} };
+
+    for (const token of spec.split(',').map(part => part.trim()).filter(part => part.length > 0)) {
+        const [pattern, level] = token.split('=').map(part => part.trim());
+        if (level !== undefined) {
+            if (pattern && (LOG_LEVELS as string[]).includes(level)) {
+                options.tagLevels[pattern] = level as LogLevel;
+            }
+        } else if (pattern.startsWith('-')) {
+            if (pattern.length > 1) options.exclude.push(pattern.slice(1));
+        } else {
+            options.include.push(pattern);
+        }
+    }
+
+    return options;
+}
+
+/**
+ * Inverse of `parseTagFilterSpec`
+ */
+export function formatTagFilterSpec(options: TagFilterOptions | undefined): string {
+    if (!options) return '';
+    return [
+        ...(options.include ?? []),
+        ...(options.exclude ?? []).map(tag => `-${tag}`),
+        ...Object.entries(options.tagLevels ?? {}).map(([pattern, level]) => `${pattern}=${level}`)
+    ].join(', ');
+}
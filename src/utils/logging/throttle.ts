@@ -0,0 +1,280 @@
+import { safeStringify } from './serialize';
+import { matchesTagPattern } from './tagFilters';
+import { LOG_LEVELS, LogEntry, LogLevel } from './types';
+
+/**
+ * Deduplication and rate limiting
+ * Sits between the Logger's filters and its sinks, so event handlers that fire
+ * hundreds of times per second don't flood the console and the log file
+ *
+ * - Identical consecutive entries are collapsed into one `... (repeated N times)` entry
+ * - Token buckets per component and per tag pattern drop entries over the limit,
+ *   followed by a `Dropped N messages ...` summary
+ * - Errors are never rate limited
+ */
+
+export interface RateLimit {
+    perSecond: number;   // Sustained rate
+    burst?: number;      // Entries allowed at once (default: perSecond)
+}
+
+export interface ThrottleConfig {
+    dedupe: boolean;                          // Collapse identical consecutive entries
+    summaryInterval: number;                  // Milliseconds before pending repeat and drop counts are logged
+    defaultComponentLimit: RateLimit | null;  // For components without their own limit (null = unlimited)
+    componentLimits: Record<string, RateLimit>;
+    tagLimits: Record<string, RateLimit>;     // Keyed by tag pattern, e.g. `vault:*`
+}
+
+export const DEFAULT_THROTTLE_CONFIG: ThrottleConfig = {
+    dedupe: true,
+    summaryInterval: 2000,
+    defaultComponentLimit: null,
+    componentLimits: {},
+    tagLimits: {}
+};
+
+/**
+ * Time source for the throttle - tests pass a manual clock
+ */
+export interface ThrottleClock {
+    now(): number;
+    setTimeout(callback: () => void, ms: number): unknown;
+    clearTimeout(handle: unknown): void;
+}
+
+const SYSTEM_CLOCK: ThrottleClock = {
+    now: () => Date.now(),
+    setTimeout: (callback, ms) => setTimeout(callback, ms),
+    clearTimeout: handle => clearTimeout(handle as ReturnType<typeof setTimeout>)
+};
+
+class TokenBucket {
+    private tokens: number;
+    private updatedAt: number;
+    private dropped: number = 0;
+    private droppedLevel: LogLevel = 'debug';
+    private droppedComponent: string = '';
+
+    constructor(private label: string, private limit: RateLimit, now: number) {
+        this.tokens = this.capacity();
+        this.updatedAt = now;
+    }
+
+    hasToken(now: number): boolean {
+        const elapsed = (now - this.updatedAt) / 1000;
+        this.tokens = Math.min(this.capacity(), this.tokens + elapsed * this.limit.perSecond);
+        this.updatedAt = now;
+        return this.tokens >= 1;
+    }
+
+    take(): void {
+        this.tokens -= 1;
+    }
+
+    recordDrop(entry: LogEntry): void {
+        this.dropped++;
+        this.droppedComponent = entry.component;
+        if (LOG_LEVELS.indexOf(entry.level) > LOG_LEVELS.indexOf(this.droppedLevel)) {
+            this.droppedLevel = entry.level;
+        }
+    }
+
+    /**
+     * Summary of the entries dropped since the last call, at the highest dropped level
+     */
+    takeSummary(now: number): LogEntry | null {
+        if (this.dropped === 0) return null;
+
+        const summary: LogEntry = {
+            timestamp: now,
+            level: this.droppedLevel,
+            component: this.droppedComponent,
+            message: `Dropped ${this.dropped} message${this.dropped === 1 ? '' : 's'} (rate limit ${this.label}: ${this.limit.perSecond}/s)`,
+            tags: ['rate-limit'],
+            args: []
+        };
+        this.dropped = 0;
+        this.droppedLevel = 'debug';
+        return summary;
+    }
+
+    private capacity(): number {
+        return Math.max(1, this.limit.burst ?? this.limit.perSecond);
+    }
+}
+
+interface LastEntry {
+    entry: LogEntry;
+    repeats: number;
+    argsKey?: string;   // Serialized context and arguments, computed on the first possible repeat
+}
+
+function argsKey(entry: LogEntry): string {
+    return safeStringify([entry.context ?? null, entry.args]);
+}
+
+export class LogThrottle {
+    private config: ThrottleConfig = cloneConfig(DEFAULT_THROTTLE_CONFIG);
+    private buckets: Map<string, TokenBucket> = new Map();
+    private last: LastEntry | null = null;
+    private summaryTimer: unknown = null;
+
+    /**
+     * @param write - Receives every entry that passes, plus the summaries
+     */
+    constructor(private write: (entry: LogEntry) => void, private clock: ThrottleClock = SYSTEM_CLOCK) {}
+
+    /**
+     * Update the configuration - limits restart with full buckets
+     */
+    configure(config: Partial<ThrottleConfig>): void {
+        this.flush();
+        this.config = cloneConfig({ ...this.config, ...config });
+        this.buckets.clear();
+    }
+
+    getConfig(): ThrottleConfig {
+        return cloneConfig(this.config);
+    }
+
+    process(entry: LogEntry): void {
+        if (this.config.dedupe && this.isRepeat(entry)) {
+            (this.last as LastEntry).repeats++;
+            this.scheduleSummary();
+            return;
+        }
+
+        this.flushRepeats();
+        this.last = null;
+
+        if (!this.admit(entry)) return;
+
+        this.write(entry);
+        if (this.config.dedupe) {
+            this.last = { entry, repeats: 0 };
+        }
+    }
+
+    /**
+     * Write pending repeat and drop summaries now
+     */
+    flush(): void {
+        if (this.summaryTimer !== null) {
+            this.clock.clearTimeout(this.summaryTimer);
+            this.summaryTimer = null;
+        }
+
+        this.flushRepeats();
+        // The next identical entry is shown in full again
+        this.last = null;
+
+        for (const bucket of this.buckets.values()) {
+            const summary = bucket.takeSummary(this.clock.now());
+            if (summary) this.write(summary);
+        }
+    }
+
+    private isRepeat(entry: LogEntry): boolean {
+        if (!this.last) return false;
+
+        const previous = this.last.entry;
+        if (previous.level !== entry.level
+            || previous.component !== entry.component
+            || previous.message !== entry.message
+            || previous.correlationId !== entry.correlationId
+            || (previous.tags ?? []).join(',') !== (entry.tags ?? []).join(',')) {
+            return false;
+        }
+
+        if (this.last.argsKey === undefined) {
+            this.last.argsKey = argsKey(previous);
+        }
+        return this.last.argsKey === argsKey(entry);
+    }
+
+    private flushRepeats(): void {
+        if (!this.last || this.last.repeats === 0) return;
+
+        const { entry, repeats } = this.last;
+        this.write({
+            ...entry,
+            timestamp: this.clock.now(),
+            message: `${entry.message} (repeated ${repeats} time${repeats === 1 ? '' : 's'})`,
+            args: []
+        });
+        this.last.repeats = 0;
+    }
+
+    /**
+     * Take a token from every bucket the entry counts against
+     * If one is empty the entry is dropped and nothing is taken
+     */
+    private admit(entry: LogEntry): boolean {
+        if (entry.level === 'error') return true;
+
+        const buckets = this.bucketsFor(entry);
+        if (buckets.length === 0) return true;
+
+        const now = this.clock.now();
+        const empty = buckets.find(bucket => !bucket.hasToken(now));
+        if (empty) {
+            empty.recordDrop(entry);
+            this.scheduleSummary();
+            return false;
+        }
+
+        for (const bucket of buckets) {
+            bucket.take();
+            // Report the gap before the first entry that gets through again
+            const summary = bucket.takeSummary(now);
+            if (summary) this.write(summary);
+        }
+        return true;
+    }
+
+    private bucketsFor(entry: LogEntry): TokenBucket[] {
+        const buckets: TokenBucket[] = [];
+
+        const componentLimit = this.config.componentLimits[entry.component] ?? this.config.defaultComponentLimit;
+        if (componentLimit) {
+            buckets.push(this.getBucket(`component:${entry.component}`, `'${entry.component}'`, componentLimit));
+        }
+
+        const tags = entry.tags ?? [];
+        for (const pattern of Object.keys(this.config.tagLimits)) {
+            if (tags.some(tag => matchesTagPattern(pattern, tag))) {
+                buckets.push(this.getBucket(`tag:${pattern}`, `tag '${pattern}'`, this.config.tagLimits[pattern]));
+            }
+        }
+
+        return buckets;
+    }
+
+    private getBucket(key: string, label: string, limit: RateLimit): TokenBucket {
+        let bucket = this.buckets.get(key);
+        if (!bucket) {
+            bucket = new TokenBucket(label, limit, this.clock.now());
+            this.buckets.set(key, bucket);
+        }
+        return bucket;
+    }
+
+    private scheduleSummary(): void {
+        if (this.summaryTimer !== null) return;
+
+        this.summaryTimer = this.clock.setTimeout(() => {
+            this.summaryTimer = null;
+            this.flush();
+        }, this.config.summaryInterval);
+    }
+}
+
+function cloneConfig(config: ThrottleConfig): ThrottleConfig {
+    return {
+        ...config,
+        defaultComponentLimit: config.defaultComponentLimit ? { ...config.defaultComponentLimit } : null,
+        componentLimits: { ...config.componentLimits },
+        tagLimits: { ...config.tagLimits }
+    };
+}
@@ -0,0 +1,85 @@
+/**
+ * Shared logging types
+ * Kept separate from Logger.ts so sinks and formatters can import them without cycles
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * All levels in order of severity
+ */
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/**
+ * Check if `level` is at least as severe as `minLevel`
+ */
+export function isLevelEnabled(level: LogLevel, minLevel: LogLevel): boolean {
+    return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(minLevel);
+}
+
+/**
+ * Fields bound to a child logger, merged into every entry it writes
+ */
+export type LogContext = Record<string, unknown>;
+
+/**
+ * A single log call, as handed to every sink
+ */
+export interface LogEntry {
+    timestamp: number;      // Milliseconds since epoch
+    level: LogLevel;
+    component: string;
+    message: string;
+    tags?: string[];
+    args: unknown[];
+    context?: LogContext;   // Fields bound with `child()`
+    correlationId?: string; // Set for entries logged inside a span
+    span?: string;          // Span path, e.g. `sync > upload`
+}
+
+/**
+ * Turns an entry into the text a sink writes
+ */
+export type LogFormatter = (entry: LogEntry) => string;
+
+/**
+ * Destination for log entries (console, file, memory, ...)
+ * Each sink filters by its own minimum level and can be switched off independently
+ */
+export interface LogSink {
+    readonly name: string;
+    enabled: boolean;
+    minLevel: LogLevel;
+    formatter: LogFormatter;
+
+    /**
+     * Receive an entry that passed both the component and the sink filters
+     */
+    write(entry: LogEntry): void;
+
+    /**
+     * Write out anything buffered
+     */
+    flush?(): void | Promise<void>;
+
+    /**
+     * Release resources when the sink is removed
+     */
+    dispose?(): void | Promise<void>;
+}
+
+export interface SinkOptions {
+    enabled?: boolean;
+    minLevel?: LogLevel;
+    formatter?: LogFormatter;
+}
+
+/**
+ * Entries recorded per level
+ */
+export type LevelCounts = Record<LogLevel, number>;
+
+/**
+ * Called with the new counts whenever one of them changes
+ */
+export type LevelCountsListener = (counts: LevelCounts) => void;
@@ -0,0 +1,152 @@
+import { beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Collection, CollectionChange } from '../src/data/Collection';
+import { DataStore } from '../src/data/DataStore';
+import { NOTE_HISTORY_OPTIONS, NoteHistory, recordNoteOpen } from '../src/data/noteHistory';
+import { ErrorBoundary } from '../src/utils/ErrorBoundary';
+import { MemorySink } from '../src/utils/Logger';
+import { captureLogs, createTestVault, TestVault } from './helpers';
+
+const FOLDER = '.obsidian/plugins/example-plugin/data';
+const HISTORY_PATH = `${FOLDER}/note-history.json`;
+
+function wait(ms: number): Promise<void> {
+	return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function savedRecords(vault: TestVault, path = HISTORY_PATH): Record<string, unknown> {
+	return JSON.parse(vault.adapter.readSync(path)).records;
+}
+
+describe('DataStore', () => {
+	let vault: TestVault;
+	let store: DataStore;
+	let logs: MemorySink;
+
+	beforeEach(() => {
+		logs = captureLogs();
+		vault = createTestVault();
+		store = new DataStore(vault.obsidianApp, FOLDER);
+	});
+
+	it('writes changes after the save delay', async () => {
+		const history = await store.collection<NoteHistory>('note-history', { saveDelay: 20 });
+		recordNoteOpen(history, 'a.md', 1);
+		recordNoteOpen(history, 'a.md', 2);
+		assert.equal(vault.adapter.hasFile(HISTORY_PATH), false);
+
+		await wait(50);
+		assert.deepEqual(savedRecords(vault), { 'a.md': { opens: 2, lastOpened: 2 } });
+		assert.equal(vault.adapter.hasFile(`${HISTORY_PATH}.tmp`), false);
+	});
+
+	it('writes immediately on flush and loads the file again', async () => {
+		const history = await store.collection<NoteHistory>('note-history');
+		history.set('a.md', { opens: 3, lastOpened: 10 });
+		await store.flush();
+
+		const reopened = await new DataStore(vault.obsidianApp, FOLDER).collection<NoteHistory>('note-history');
+		assert.deepEqual(reopened.get('a.md'), { opens: 3, lastOpened: 10 });
+	});
+
+	it('rejects invalid and duplicate collection names', async () => {
+		await store.collection('notes');
+		await assert.rejects(store.collection('notes'), /already open/);
+		await assert.rejects(store.collection('My Notes'), /Invalid collection name/);
+	});
+
+	it('recovers a save that stopped before the rename', async () => {
+		vault.adapter.writeSync(`${HISTORY_PATH}.tmp`, JSON.stringify({ version: 1, records: { 'a.md': { opens: 1, lastOpened: 1 } } }));
+		const history = await store.collection<NoteHistory>('note-history');
+		assert.equal(history.get('a.md')?.opens, 1);
+
+		await history.flush();
+		assert.equal(vault.adapter.hasFile(HISTORY_PATH), true);
+		assert.equal(vault.adapter.hasFile(`${HISTORY_PATH}.tmp`), false);
+	});
+
+	it('keeps an unreadable file and drops invalid records', async () => {
+		vault.adapter.writeSync(`${FOLDER}/broken.json`, '{ not json');
+		const broken = await store.collection('broken');
+		assert.equal(broken.size, 0);
+		assert.equal(vault.adapter.readSync(`${FOLDER}/broken.json.invalid`), '{ not json');
+
+		vault.adapter.writeSync(HISTORY_PATH, JSON.stringify({ version: 1, records: { 'a.md': { opens: 1, lastOpened: 1 }, 'b.md': { opens: 'many' } } }));
+		const history = await store.collection<NoteHistory>('note-history', NOTE_HISTORY_OPTIONS);
+		assert.deepEqual(history.keys(), ['a.md']);
+		assert.ok(logs.getEntries().some(entry => entry.level === 'warn' && /Invalid record/.test(entry.message)));
+	});
+
+	it('starts empty when the unreadable file cannot be kept', async () => {
+		vault.adapter.writeSync(`${FOLDER}/broken.json`, '{ not json');
+		vault.adapter.failNext('write');
+		const broken = await store.collection('broken');
+
+		assert.equal(broken.size, 0);
+		assert.equal(vault.adapter.hasFile(`${FOLDER}/broken.json.invalid`), false);
+		assert.deepEqual(logs.getEntries().filter(entry => entry.level === 'error').map(entry => entry.message), [
+			'Could not keep the unreadable "broken" file',
+			'Collection "broken" could not be read, starting empty'
+		]);
+	});
+
+	it('tells subscribers about each change', async () => {
+		const history = await store.collection<NoteHistory>('note-history');
+		const changes: CollectionChange<NoteHistory>[] = [];
+		const unsubscribe = history.subscribe(change => changes.push(change));
+
+		history.set('a.md', { opens: 1, lastOpened: 1 });
+		history.move('a.md', 'b.md');
+		unsubscribe();
+		history.delete('b.md');
+
+		assert.deepEqual(changes.map(({ key, value, previous }) => [key, value?.opens, previous?.opens]),
+			[['a.md', 1, undefined], ['a.md', undefined, 1], ['b.md', 1, undefined]]);
+	});
+
+	it('keeps changes that failed to save for the next write', async () => {
+		const history = await store.collection<NoteHistory>('note-history');
+		history.set('a.md', { opens: 1, lastOpened: 1 });
+		vault.adapter.failNext('write');
+		await history.flush();
+		assert.equal(vault.adapter.hasFile(HISTORY_PATH), false);
+		assert.ok(logs.getEntries().some(entry => entry.level === 'error' && entry.component === 'storage'));
+
+		await history.flush();
+		assert.deepEqual(Object.keys(savedRecords(vault)), ['a.md']);
+	});
+
+	describe('per-note collections', () => {
+		let history: Collection<NoteHistory>;
+		let other: Collection<NoteHistory>;
+
+		beforeEach(async () => {
+			history = await store.collection<NoteHistory>('note-history', NOTE_HISTORY_OPTIONS);
+			other = await store.collection<NoteHistory>('other');
+			store.registerVaultEvents(vault.obsidianPlugin, new ErrorBoundary(vault.obsidianPlugin));
+			for (const path of ['a.md', 'Folder/b.md', 'Folder/c.md', 'Folder2/d.md']) {
+				vault.adapter.writeSync(path, '');
+				history.set(path, { opens: 1, lastOpened: 1 });
+				other.set(path, { opens: 1, lastOpened: 1 });
+			}
+		});
+
+		it('move records with renamed notes and folders', async () => {
+			const { vault: obsidianVault } = vault.app;
+			await obsidianVault.rename(obsidianVault.getAbstractFileByPath('a.md')!, 'Renamed.md');
+			await obsidianVault.rename(obsidianVault.getAbstractFileByPath('Folder')!, 'Moved');
+
+			assert.deepEqual(history.keys().sort(), ['Folder2/d.md', 'Moved/b.md', 'Moved/c.md', 'Renamed.md']);
+			assert.equal(other.has('a.md'), true);
+		});
+
+		it('drop records of deleted notes and folders', async () => {
+			const { vault: obsidianVault } = vault.app;
+			await obsidianVault.delete(obsidianVault.getAbstractFileByPath('a.md')!);
+			await obsidianVault.delete(obsidianVault.getAbstractFileByPath('Folder')!);
+
+			assert.deepEqual(history.keys(), ['Folder2/d.md']);
+			assert.equal(other.size, 4);
+		});
+	});
+});
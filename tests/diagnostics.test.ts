@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { DiagnosticMode, DiagnosticModeState } from '../src/utils/logging/diagnostics';
+
+describe('DiagnosticMode expiry', () => {
+	let mode: DiagnosticMode;
+	let states: DiagnosticModeState[];
+
+	beforeEach(() => {
+		mock.timers.enable({ apis: ['setTimeout', 'Date'], now: 10000 });
+		mode = new DiagnosticMode();
+		states = [];
+		mode.onChange(state => states.push(state));
+	});
+
+	afterEach(() => {
+		mode.disable();
+		mock.timers.reset();
+	});
+
+	it('switches off when the duration is up', () => {
+		mode.enable(5000);
+		assert.deepEqual(mode.getState(), { active: true, until: 15000 });
+
+		mock.timers.tick(4999);
+		assert.ok(mode.isActive());
+
+		mock.timers.tick(1);
+		assert.ok(!mode.isActive());
+		assert.deepEqual(states, [{ active: true, until: 15000 }, { active: false, until: null }]);
+	});
+
+	it('replaces the duration when enabled again', () => {
+		mode.enable(5000);
+		mock.timers.tick(4000);
+		mode.enable(5000);
+
+		mock.timers.tick(4000);
+		assert.deepEqual(mode.getState(), { active: true, until: 19000 });
+
+		mock.timers.tick(1000);
+		assert.ok(!mode.isActive());
+		assert.equal(states.filter(state => !state.active).length, 1);
+	});
+
+	it('stays on without a duration, also after an earlier timed run', () => {
+		mode.enable(1000);
+		mode.enable();
+		mock.timers.tick(60000);
+
+		assert.deepEqual(mode.getState(), { active: true, until: null });
+	});
+
+	it('cancels the expiry when switched off early', () => {
+		mode.enable(1000);
+		mode.disable();
+		mode.enable();
+		mock.timers.tick(1000);
+
+		assert.ok(mode.isActive());
+		assert.deepEqual(states.map(state => state.active), [true, false, true]);
+	});
+
+	it('does not notify when switching off while already off', () => {
+		mode.disable();
+		assert.deepEqual(states, []);
+	});
+
+	it('keeps notifying the other listeners when one throws', () => {
+		const errors = mock.method(console, 'error', () => undefined);
+		const unsubscribe = mode.onChange(() => {
+			throw new Error('Listener failed');
+		});
+		let calls = 0;
+		mode.onChange(() => calls++);
+
+		mode.enable(1000);
+		mock.timers.tick(1000);
+		unsubscribe();
+		mode.enable();
+
+		assert.equal(calls, 3);
+		assert.equal(errors.mock.callCount(), 2);
+		errors.mock.restore();
+	});
+});
@@ -0,0 +1,112 @@
+import { beforeEach, describe, it, mock } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { EVENT_BUS_TAG, EventBus } from '../src/events/EventBus';
+import { ErrorBoundary } from '../src/utils/ErrorBoundary';
+import { MemorySink } from '../src/utils/Logger';
+import { captureLogs, createTestVault, TestVault } from './helpers';
+
+interface TestEvents {
+	'saved': { path: string };
+	'cleared': null;
+}
+
+describe('EventBus', () => {
+	let vault: TestVault;
+	let errors: ErrorBoundary;
+	let bus: EventBus<TestEvents>;
+	let logs: MemorySink;
+
+	beforeEach(async () => {
+		logs = captureLogs();
+		vault = createTestVault();
+		await vault.plugin.load();
+		errors = new ErrorBoundary(vault.obsidianPlugin);
+		bus = new EventBus<TestEvents>(vault.obsidianPlugin, errors);
+	});
+
+	it('calls listeners in subscription order and waits for async ones', async () => {
+		const calls: string[] = [];
+		bus.on('saved', ({ path }) => {
+			calls.push(`first ${path}`);
+		});
+		bus.on('saved', async ({ path }) => {
+			await new Promise(resolve => setTimeout(resolve, 5));
+			calls.push(`second ${path}`);
+		});
+		bus.on('cleared', () => {
+			calls.push('cleared');
+		});
+
+		await bus.emit('saved', { path: 'a.md' });
+		assert.deepEqual(calls, ['first a.md', 'second a.md']);
+	});
+
+	it('keeps calling listeners after one throws or rejects', async () => {
+		let called = false;
+		bus.on('saved', () => {
+			throw new Error('sync failure');
+		});
+		bus.on('saved', async () => {
+			throw new Error('async failure');
+		});
+		bus.on('saved', () => {
+			called = true;
+		});
+
+		await bus.emit('saved', { path: 'a.md' });
+		assert.equal(called, true);
+		assert.equal(errors.getErrorCount('events'), 2);
+	});
+
+	it('removes listeners on unsubscribe, after once and when the plugin unloads', async () => {
+		let count = 0;
+		const unsubscribe = bus.on('saved', () => {
+			count++;
+		});
+		bus.once('saved', () => {
+			count += 10;
+		});
+		bus.on('cleared', () => {
+			count += 100;
+		});
+
+		await bus.emit('saved', { path: 'a.md' });
+		unsubscribe();
+		await bus.emit('saved', { path: 'a.md' });
+		assert.equal(count, 11);
+		assert.equal(bus.listenerCount('saved'), 0);
+
+		await vault.plugin.unload();
+		assert.equal(bus.listenerCount('cleared'), 0);
+	});
+
+	it('registers a single unload cleanup however often listeners come and go', async () => {
+		const register = mock.method(vault.obsidianPlugin, 'register');
+		for (let i = 0; i < 5; i++) {
+			bus.on('saved', () => undefined)();
+			bus.once('cleared', () => undefined);
+		}
+		assert.equal(register.mock.callCount(), 1);
+		register.mock.restore();
+
+		await vault.plugin.unload();
+		assert.equal(bus.listenerCount('cleared'), 0);
+
+		// Loaded again, the next subscription registers a new cleanup
+		await vault.plugin.load();
+		bus.on('saved', () => undefined);
+		await vault.plugin.unload();
+		assert.equal(bus.listenerCount('saved'), 0);
+	});
+
+	it('traces emits unless switched off', async () => {
+		bus.on('saved', () => undefined);
+		await bus.emit('saved', { path: 'a.md' });
+		const traced = logs.getEntries().filter(entry => entry.tags?.includes(EVENT_BUS_TAG));
+		assert.deepEqual(traced.map(entry => [entry.component, entry.message]), [['events', 'Event "saved"']]);
+
+		const quiet = new EventBus<TestEvents>(vault.obsidianPlugin, errors, { trace: false });
+		await quiet.emit('cleared', null);
+		assert.equal(logs.getEntries().filter(entry => entry.tags?.includes(EVENT_BUS_TAG)).length, 1);
+	});
+});
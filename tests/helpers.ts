@@ -0,0 +1,57 @@
+import { App, InMemoryAdapter, Plugin, PluginManifest } from './obsidian';
+import { logger, LogLevel, MemorySink } from '../src/utils/Logger';
+import type { App as ObsidianApp, Plugin as ObsidianPlugin } from 'obsidian';
+
+/**
+ * Shared setup for the test files
+ * Each test file runs in its own process, so the logger singleton starts fresh per file.
+ */
+
+export const TEST_MANIFEST: PluginManifest = {
+	id: 'example-plugin',
+	name: 'Example Plugin',
+	version: '0.0.0-test',
+	minAppVersion: '1.7.2',
+	author: 'Tests',
+	description: 'Plugin under test',
+	dir: '.obsidian/plugins/example-plugin'
+};
+
+export interface TestVault {
+	adapter: InMemoryAdapter;
+	app: App;
+	plugin: Plugin;
+	// The same objects typed as Obsidian's, for passing to plugin code
+	obsidianApp: ObsidianApp;
+	obsidianPlugin: ObsidianPlugin;
+}
+
+export function createTestVault(): TestVault {
+	const adapter = new InMemoryAdapter();
+	const app = new App(adapter);
+	const plugin = new Plugin(app, TEST_MANIFEST);
+	return {
+		adapter,
+		app,
+		plugin,
+		obsidianApp: app as unknown as ObsidianApp,
+		obsidianPlugin: plugin as unknown as ObsidianPlugin
+	};
+}
+
+/**
+ * Route the logger into a fresh memory sink instead of the console
+ * Every component logs at `level`, with no tag filters, dedupe or rate limits.
+ */
+export function captureLogs(level: LogLevel = 'debug'): MemorySink {
+	void logger.removeSink('console');
+	const sink = new MemorySink({ capacity: 1000 }, 'test');
+	logger.addSink(sink);
+
+	const config = logger.getConfig();
+	for (const component of logger.getComponentNames()) config[component] = level;
+	logger.setConfig(config);
+	logger.clearAllTagFilters();
+	logger.setThrottleConfig({ dedupe: false, defaultComponentLimit: null, componentLimits: {}, tagLimits: {} });
+	return sink;
+}
@@ -0,0 +1,116 @@
+import { beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import type { DataAdapter } from 'obsidian';
+import { VaultFileSink } from '../src/utils/Logger';
+import { pruneRotatedFiles, rotatedPath, rotateFiles } from '../src/utils/logging/logRotation';
+import { InMemoryAdapter } from './obsidian';
+import { createTestVault } from './helpers';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('rotatedPath', () => {
+	it('inserts the index before the extension', () => {
+		assert.equal(rotatedPath('debug-log.txt', 2), 'debug-log.2.txt');
+		assert.equal(rotatedPath('logs/debug-log.txt', 1), 'logs/debug-log.1.txt');
+		assert.equal(rotatedPath('logs/debug-log', 3), 'logs/debug-log.3');
+	});
+});
+
+describe('rotateFiles', () => {
+	let adapter: InMemoryAdapter;
+	let dataAdapter: DataAdapter;
+
+	beforeEach(() => {
+		adapter = new InMemoryAdapter();
+		dataAdapter = adapter as unknown as DataAdapter;
+	});
+
+	it('shifts every file up by one', async () => {
+		adapter.writeSync('log.txt', 'current');
+		adapter.writeSync('log.1.txt', 'previous');
+		await rotateFiles(dataAdapter, 'log.txt', 3);
+
+		assert.equal(adapter.hasFile('log.txt'), false);
+		assert.equal(adapter.readSync('log.1.txt'), 'current');
+		assert.equal(adapter.readSync('log.2.txt'), 'previous');
+	});
+
+	it('drops the oldest file once maxFiles are kept', async () => {
+		adapter.writeSync('log.txt', 'current');
+		adapter.writeSync('log.1.txt', 'one');
+		adapter.writeSync('log.2.txt', 'two');
+		await rotateFiles(dataAdapter, 'log.txt', 2);
+
+		assert.deepEqual(adapter.allFiles(), ['log.1.txt', 'log.2.txt']);
+		assert.equal(adapter.readSync('log.2.txt'), 'one');
+	});
+
+	it('deletes the current file when no rotated files are kept', async () => {
+		adapter.writeSync('log.txt', 'current');
+		await rotateFiles(dataAdapter, 'log.txt', 0);
+		assert.deepEqual(adapter.allFiles(), []);
+	});
+});
+
+describe('pruneRotatedFiles', () => {
+	let adapter: InMemoryAdapter;
+	let dataAdapter: DataAdapter;
+
+	beforeEach(() => {
+		adapter = new InMemoryAdapter();
+		dataAdapter = adapter as unknown as DataAdapter;
+	});
+
+	it('removes files beyond maxFiles and leaves unrelated files alone', async () => {
+		for (const path of ['logs/log.txt', 'logs/log.1.txt', 'logs/log.2.txt', 'logs/log.3.txt', 'logs/other.1.txt']) {
+			adapter.writeSync(path, path);
+		}
+		const removed = await pruneRotatedFiles(dataAdapter, 'logs/log.txt', 1, 0);
+
+		assert.deepEqual(removed.sort(), ['logs/log.2.txt', 'logs/log.3.txt']);
+		assert.deepEqual(adapter.allFiles(), ['logs/log.1.txt', 'logs/log.txt', 'logs/other.1.txt']);
+	});
+
+	it('removes files older than maxAgeDays but never the current file', async () => {
+		adapter.writeSync('log.txt', 'current');
+		adapter.writeSync('log.1.txt', 'recent');
+		adapter.writeSync('log.2.txt', 'old');
+		adapter.setMtime('log.txt', Date.now() - 30 * DAY_MS);
+		adapter.setMtime('log.2.txt', Date.now() - 8 * DAY_MS);
+
+		const removed = await pruneRotatedFiles(dataAdapter, 'log.txt', 5, 7);
+		assert.deepEqual(removed, ['log.2.txt']);
+		assert.deepEqual(adapter.allFiles(), ['log.1.txt', 'log.txt']);
+	});
+});
+
+describe('VaultFileSink rotation', () => {
+	it('rotates when the file would exceed maxFileSize', async () => {
+		const { adapter, obsidianApp } = createTestVault();
+		const sink = new VaultFileSink(obsidianApp, 'log.txt', { maxBufferSize: 1, maxFileSize: 1024, maxFiles: 2 });
+		const line = `${'x'.repeat(99)}\n`;
+
+		for (let index = 0; index < 25; index++) sink.writeRaw(line);
+		await sink.dispose();
+
+		assert.deepEqual(adapter.allFiles(), ['log.1.txt', 'log.2.txt', 'log.txt']);
+		for (const path of adapter.allFiles()) {
+			assert.ok(adapter.readSync(path).length <= 1024 + 200, `${path} is too large`);
+		}
+		assert.match(adapter.readSync('log.txt'), /Log rotated, previous entries in log\.1\.txt/);
+	});
+
+	it('measures the limit in bytes, not characters', async () => {
+		const { adapter, obsidianApp } = createTestVault();
+		const sink = new VaultFileSink(obsidianApp, 'log.txt', { maxBufferSize: 1, maxFileSize: 1024, maxFiles: 1 });
+		// 100 characters, 298 bytes as UTF-8
+		const line = `${'€'.repeat(99)}\n`;
+
+		for (let index = 0; index < 4; index++) sink.writeRaw(line);
+		await sink.dispose();
+
+		assert.deepEqual(adapter.allFiles(), ['log.1.txt', 'log.txt']);
+		assert.equal(adapter.readSync('log.1.txt'), line.repeat(3));
+		assert.ok((adapter.statSync('log.1.txt')?.size ?? 0) <= 1024);
+	});
+});
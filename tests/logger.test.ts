@@ -0,0 +1,226 @@
+import { afterEach, before, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { createLogger, logger, MemorySink, VaultFileSink } from '../src/utils/Logger';
+import { ErrorBoundary } from '../src/utils/ErrorBoundary';
+import { captureLogs, createTestVault, TestVault } from './helpers';
+
+// A plugin's own component, declared so createLogger accepts the name
+declare module '../src/utils/Logger' {
+	interface RegisteredComponents {
+		'test-sync': true;
+	}
+}
+
+describe('VaultFileSink buffering', () => {
+	let vault: TestVault;
+
+	beforeEach(() => {
+		vault = createTestVault();
+	});
+
+	it('holds entries until the buffer is full', async () => {
+		const sink = new VaultFileSink(vault.obsidianApp, 'log.txt', { maxBufferSize: 3, flushInterval: 60000 });
+		sink.writeRaw('one\n');
+		sink.writeRaw('two\n');
+		assert.equal(vault.adapter.hasFile('log.txt'), false);
+
+		sink.writeRaw('three\n');
+		await sink.flush();
+		assert.equal(vault.adapter.readSync('log.txt'), 'one\ntwo\nthree\n');
+		await sink.dispose();
+	});
+
+	it('flushes after the flush interval', async () => {
+		const sink = new VaultFileSink(vault.obsidianApp, 'log.txt', { flushInterval: 10 });
+		sink.writeRaw('late\n');
+		await new Promise(resolve => setTimeout(resolve, 50));
+		assert.equal(vault.adapter.readSync('log.txt'), 'late\n');
+		await sink.dispose();
+	});
+
+	it('keeps the order of entries logged during a write', async () => {
+		const sink = new VaultFileSink(vault.obsidianApp, 'log.txt', { maxBufferSize: 1 });
+		for (let index = 0; index < 20; index++) sink.writeRaw(`${index}\n`);
+		await sink.flush();
+		const expected = Array.from({ length: 20 }, (_, index) => `${index}\n`).join('');
+		assert.equal(vault.adapter.readSync('log.txt'), expected);
+		await sink.dispose();
+	});
+
+	it('retries a failed write', async () => {
+		const sink = new VaultFileSink(vault.obsidianApp, 'log.txt', { maxBufferSize: 100 });
+		sink.writeRaw('first\n');
+		await sink.flush();
+
+		vault.adapter.failNext('append');
+		sink.writeRaw('second\n');
+		await sink.flush();
+		assert.equal(vault.adapter.readSync('log.txt'), 'first\nsecond\n');
+		await sink.dispose();
+	});
+
+	it('writes the session marker and entries through initFileLogging', async () => {
+		captureLogs('info');
+		logger.initFileLogging(vault.obsidianApp, 'debug-log.txt', { folder: 'logs' });
+		logger.info('main', 'Hello file', { answer: 42 });
+		await logger.disableFileLogging();
+
+		const content = vault.adapter.readSync('logs/debug-log.txt');
+		assert.match(content, /=== Plugin Debug Log Started ===/);
+		assert.match(content, /\[INFO\] .*Hello file/);
+		assert.match(content, /"answer": 42/);
+	});
+
+	it('writes JSON Lines when asked', async () => {
+		captureLogs('info');
+		logger.initFileLogging(vault.obsidianApp, 'debug-log.jsonl', { format: 'jsonl' });
+		logger.warn('api', 'Structured');
+		await logger.disableFileLogging();
+
+		const lines = vault.adapter.readSync('debug-log.jsonl').trim().split('\n').map(line => JSON.parse(line));
+		assert.equal(lines.length, 2);
+		assert.equal(lines[1].message, 'Structured');
+		assert.equal(lines[1].level, 'warn');
+	});
+});
+
+describe('Registered components', () => {
+	before(() => {
+		logger.registerComponent('test-sync', { defaultLevel: 'debug' });
+	});
+
+	it('work with createLogger once declared and registered', () => {
+		const sink = captureLogs('warn');
+		logger.setComponentLevel('test-sync', 'debug');
+		createLogger('test-sync').debug('Registered component logs');
+
+		assert.deepEqual(sink.getEntries().map(entry => [entry.component, entry.message]), [['test-sync', 'Registered component logs']]);
+	});
+
+	it('work with the error boundary', () => {
+		const sink = captureLogs('warn');
+		const errors = new ErrorBoundary(createTestVault().obsidianPlugin);
+		errors.wrap('test-sync', 'Sync', () => {
+			throw new Error('Sync failed');
+		})();
+
+		assert.equal(errors.getErrorCount('test-sync'), 1);
+		assert.equal(sink.getEntries()[0].component, 'test-sync');
+	});
+});
+
+describe('Tag filtering', () => {
+	let sink: MemorySink;
+
+	beforeEach(() => {
+		sink = captureLogs('debug');
+	});
+
+	afterEach(async () => {
+		logger.clearAllTagFilters();
+		await logger.removeSink(sink.name);
+	});
+
+	const messages = () => sink.getEntries().map(entry => entry.message);
+
+	it('restricts debug messages to included tags', () => {
+		logger.setTagFilter('ui', { include: ['validation'] });
+		logger.debug('ui', 'Tagged', ['validation:form']);
+		logger.debug('ui', 'Other tag', ['rendering']);
+		logger.debug('ui', 'Untagged');
+		logger.info('ui', 'Info is not restricted');
+		assert.deepEqual(messages(), ['Tagged', 'Info is not restricted']);
+	});
+
+	it('drops excluded tags at every level', () => {
+		logger.setTagFilter('ui', { exclude: ['rendering'] });
+		logger.log('error', 'ui', 'Render failed', ['rendering']);
+		logger.log('error', 'ui', 'Save failed', ['saving']);
+		assert.deepEqual(messages(), ['Save failed']);
+	});
+
+	it('lets tag levels replace the component level', () => {
+		logger.setComponentLevel('api', 'warn');
+		logger.setTagFilter('api', { tagLevels: { 'sync:*': 'debug', 'noisy': 'error' } });
+		logger.debug('api', 'Sync detail', ['sync:conflict']);
+		logger.debug('api', 'Other detail');
+		logger.log('warn', 'api', 'Noisy warning', ['noisy']);
+		logger.warn('api', 'Plain warning');
+		assert.deepEqual(messages(), ['Sync detail', 'Plain warning']);
+	});
+
+	it('only filters the configured component', () => {
+		logger.setTagFilter('ui', { exclude: ['rendering'] });
+		logger.log('info', 'api', 'Api rendering', ['rendering']);
+		assert.deepEqual(messages(), ['Api rendering']);
+	});
+});
+
+describe('Level counts', () => {
+	beforeEach(() => {
+		captureLogs('info');
+		logger.resetLevelCounts();
+	});
+
+	it('counts entries that pass the filters', () => {
+		logger.info('ui', 'Shown');
+		logger.warn('ui', 'Warning');
+		logger.error('api', 'Failure');
+		logger.error('api', 'Failure');
+		logger.setComponentLevel('ui', 'error');
+		logger.warn('ui', 'Filtered out');
+
+		assert.deepEqual(logger.getLevelCounts(), { debug: 0, info: 1, warn: 1, error: 2 });
+	});
+
+	it('tells listeners about every change, including resets', () => {
+		const seen: number[] = [];
+		const unsubscribe = logger.onLevelCountsChanged(counts => seen.push(counts.error));
+		logger.error('api', 'One');
+		logger.error('api', 'Two');
+		logger.resetLevelCounts();
+		unsubscribe();
+		logger.error('api', 'Unheard');
+
+		assert.deepEqual(seen, [1, 2, 0]);
+	});
+});
+
+describe('Diagnostic mode', () => {
+	let sink: MemorySink;
+
+	beforeEach(() => {
+		sink = captureLogs('warn');
+	});
+
+	afterEach(() => {
+		logger.disableDiagnosticMode();
+	});
+
+	const messages = () => sink.getEntries().map(entry => entry.message);
+
+	it('logs diagnostic calls only while switched on, whatever the component level', () => {
+		logger.diagnostic('api', 'Before');
+		logger.enableDiagnosticMode();
+		logger.diagnostic('api', 'During', ['sync']);
+		logger.debug('api', 'Plain debug');
+		logger.disableDiagnosticMode();
+		logger.diagnostic('api', 'After');
+
+		assert.deepEqual(messages(), ['During']);
+		assert.deepEqual(sink.getEntries()[0].tags, ['sync', 'diagnostic']);
+		assert.equal(sink.getEntries()[0].level, 'debug');
+	});
+
+	it('switches itself off when the time is up', async () => {
+		const states: boolean[] = [];
+		const unsubscribe = logger.onDiagnosticModeChanged(state => states.push(state.active));
+		logger.enableDiagnosticMode(10);
+		assert.ok(logger.getDiagnosticMode().until);
+
+		await new Promise(resolve => setTimeout(resolve, 30));
+		unsubscribe();
+		assert.deepEqual(states, [true, false]);
+		assert.deepEqual(logger.getDiagnosticMode(), { active: false, until: null });
+	});
+});
@@ -0,0 +1,63 @@
+import { beforeEach, describe, it, mock } from 'node:test';
+import * as assert from 'node:assert/strict';
+import type { App as ObsidianApp } from 'obsidian';
+import { ConfirmModal } from '../src/ui/modals/ConfirmModal';
+import { App, fake, InMemoryAdapter, Scope } from './obsidian';
+import { captureLogs } from './helpers';
+
+describe('BaseModal', () => {
+	let modal: ConfirmModal;
+
+	beforeEach(() => {
+		captureLogs('warn');
+		modal = new ConfirmModal(new App(new InMemoryAdapter()) as unknown as ObsidianApp, { title: 'Delete note?' });
+	});
+
+	// The same scope through the stand-in's test helpers
+	const pressEnter = (target: unknown) => (modal.scope as unknown as Scope).press('Enter', [], target);
+	const clickButton = (text: string) => fake(modal.contentEl).find(el => el.tagName === 'BUTTON' && el.textContent === text)?.click();
+
+	it('resolves with the answer, or null when closed without one', async () => {
+		const confirmed = modal.openAndWait();
+		clickButton('Confirm');
+		assert.equal(await confirmed, true);
+
+		const cancelled = modal.openAndWait();
+		modal.close();
+		assert.equal(await cancelled, null);
+	});
+
+	it('submits on Enter unless a button has focus', async () => {
+		const cancelled = modal.openAndWait();
+		const cancelButton = fake(modal.contentEl).find(el => el.tagName === 'BUTTON' && el.textContent === 'Cancel');
+		assert.equal(pressEnter(cancelButton), true, 'Enter on Cancel submitted');
+		cancelButton?.click();
+		assert.equal(await cancelled, null);
+
+		const confirmed = modal.openAndWait();
+		assert.equal(pressEnter(modal.contentEl), false);
+		assert.equal(await confirmed, true);
+	});
+
+	it('registers its key handlers once, however often it opens', async () => {
+		const register = mock.method(Scope.prototype, 'register');
+		const reopened = new ConfirmModal(new App(new InMemoryAdapter()) as unknown as ObsidianApp, { title: 'Delete note?' });
+		for (let i = 0; i < 3; i++) {
+			const answer = reopened.openAndWait();
+			reopened.close();
+			await answer;
+		}
+		assert.equal(register.mock.callCount(), 2);
+		register.mock.restore();
+	});
+
+	it('does not reuse the answer from an earlier open', async () => {
+		const first = modal.openAndWait();
+		clickButton('Confirm');
+		await first;
+
+		const second = modal.openAndWait();
+		clickButton('Cancel');
+		assert.equal(await second, null);
+	});
+});
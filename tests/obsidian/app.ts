@@ -0,0 +1,346 @@
+import { createElement } from './dom';
+import { Component, Events } from './events';
+import { InMemoryAdapter, TFile, Vault } from './vault';
+
+/**
+ * App, workspace, views and Plugin
+ * Only what the plugin code touches - a workspace of loose leaves, no layout.
+ */
+
+export interface PluginManifest {
+	id: string;
+	name: string;
+	version: string;
+	minAppVersion: string;
+	author: string;
+	description: string;
+	dir?: string;
+	isDesktopOnly?: boolean;
+}
+
+export interface ViewState {
+	type: string;
+	active?: boolean;
+	state?: Record<string, unknown>;
+}
+
+type ViewCreator = (leaf: WorkspaceLeaf) => View;
+
+export class App {
+	vault: Vault;
+	workspace: Workspace;
+
+	constructor(adapter: InMemoryAdapter = new InMemoryAdapter()) {
+		this.vault = new Vault(adapter);
+		this.workspace = new Workspace(this);
+	}
+}
+
+export class Workspace extends Events {
+	leaves: WorkspaceLeaf[] = [];
+	viewCreators = new Map<string, ViewCreator>();
+	layoutReady = true;
+	/**
+	 * Set by tests - the leaf the active view and file come from
+	 */
+	activeLeaf: WorkspaceLeaf | null = null;
+
+	constructor(readonly app: App) {
+		super();
+	}
+
+	getLeaf(newLeaf?: boolean | 'tab' | 'split' | 'window'): WorkspaceLeaf {
+		if (!newLeaf && this.leaves.length > 0) return this.leaves[0];
+		return this.createLeaf();
+	}
+
+	getRightLeaf(split: boolean): WorkspaceLeaf | null {
+		return this.createLeaf();
+	}
+
+	getLeftLeaf(split: boolean): WorkspaceLeaf | null {
+		return this.createLeaf();
+	}
+
+	getLeavesOfType(viewType: string): WorkspaceLeaf[] {
+		return this.leaves.filter(leaf => leaf.view?.getViewType() === viewType);
+	}
+
+	getActiveViewOfType<T extends View>(type: abstract new (...args: any[]) => T): T | null {
+		const view = this.activeLeaf?.view;
+		return view instanceof type ? view : null;
+	}
+
+	getActiveFile(): TFile | null {
+		const view = this.activeLeaf?.view;
+		return view instanceof MarkdownView ? view.file : this.activeLeaf?.file ?? null;
+	}
+
+	async revealLeaf(leaf: WorkspaceLeaf): Promise<void> {
+		// Nothing to scroll into view
+	}
+
+	detachLeavesOfType(viewType: string): void {
+		this.getLeavesOfType(viewType).forEach(leaf => leaf.detach());
+	}
+
+	onLayoutReady(callback: () => unknown): void {
+		callback();
+	}
+
+	private createLeaf(): WorkspaceLeaf {
+		const leaf = new WorkspaceLeaf(this);
+		this.leaves.push(leaf);
+		return leaf;
+	}
+}
+
+export class WorkspaceLeaf extends Events {
+	view: View | null = null;
+	/**
+	 * Last file opened in this leaf
+	 */
+	file: TFile | null = null;
+
+	constructor(readonly workspace: Workspace) {
+		super();
+	}
+
+	async setViewState(state: ViewState): Promise<void> {
+		const creator = this.workspace.viewCreators.get(state.type);
+		if (!creator) throw new Error(`No view registered for "${state.type}"`);
+		await this.view?.close();
+		this.view = creator(this);
+		await this.view.open();
+	}
+
+	async openFile(file: TFile): Promise<void> {
+		this.file = file;
+		this.workspace.trigger('file-open', file);
+	}
+
+	detach(): void {
+		void this.view?.close();
+		this.view = null;
+		this.workspace.leaves = this.workspace.leaves.filter(leaf => leaf !== this);
+	}
+}
+
+export abstract class View extends Component {
+	app: App;
+	containerEl = createElement();
+
+	constructor(public leaf: WorkspaceLeaf) {
+		super();
+		this.app = leaf.workspace.app;
+	}
+
+	async open(): Promise<void> {
+		await this.load();
+		await this.onOpen();
+	}
+
+	async close(): Promise<void> {
+		await this.onClose();
+		await this.unload();
+	}
+
+	async onOpen(): Promise<void> {
+		// Overridden by subclasses
+	}
+
+	async onClose(): Promise<void> {
+		// Overridden by subclasses
+	}
+
+	getIcon(): string {
+		return '';
+	}
+
+	abstract getViewType(): string;
+	abstract getDisplayText(): string;
+}
+
+export abstract class ItemView extends View {
+	contentEl: HTMLElement;
+	private actionsEl: HTMLElement;
+
+	constructor(leaf: WorkspaceLeaf) {
+		super(leaf);
+		this.actionsEl = this.containerEl.createDiv({ cls: 'view-actions' });
+		this.contentEl = this.containerEl.createDiv({ cls: 'view-content' });
+	}
+
+	addAction(icon: string, title: string, callback: (evt: MouseEvent) => unknown): HTMLElement {
+		const actionEl = this.actionsEl.createDiv({ cls: 'view-action', attr: { 'aria-label': title, 'data-icon': icon } });
+		actionEl.addEventListener('click', callback);
+		return actionEl;
+	}
+}
+
+/**
+ * Editor over a plain string - the selection is a range within `value`
+ */
+export class Editor {
+	selectionStart: number;
+	selectionEnd: number;
+
+	constructor(public value = '') {
+		this.selectionStart = this.selectionEnd = value.length;
+	}
+
+	getValue(): string {
+		return this.value;
+	}
+
+	setValue(value: string): void {
+		this.value = value;
+		this.selectionStart = this.selectionEnd = value.length;
+	}
+
+	getSelection(): string {
+		return this.value.slice(this.selectionStart, this.selectionEnd);
+	}
+
+	replaceSelection(replacement: string): void {
+		this.value = this.value.slice(0, this.selectionStart) + replacement + this.value.slice(this.selectionEnd);
+		this.selectionStart = this.selectionEnd = this.selectionStart + replacement.length;
+	}
+}
+
+export class MarkdownView extends ItemView {
+	editor: Editor;
+	file: TFile | null;
+
+	constructor(leaf: WorkspaceLeaf, file: TFile | null = null, content = '') {
+		super(leaf);
+		this.file = file;
+		this.editor = new Editor(content);
+	}
+
+	getViewType(): string {
+		return 'markdown';
+	}
+
+	getDisplayText(): string {
+		return this.file?.basename ?? '';
+	}
+}
+
+export interface Command {
+	id: string;
+	name: string;
+	callback?: () => unknown;
+	checkCallback?: (checking: boolean) => boolean | void;
+	editorCallback?: (...args: unknown[]) => unknown;
+	editorCheckCallback?: (checking: boolean, ...args: unknown[]) => boolean | void;
+}
+
+/**
+ * Plugin with data.json stored in the in-memory adapter, under `manifest.dir`
+ * Registered commands, ribbon icons, status bar items, setting tabs and views are
+ * kept in public fields so tests can inspect and trigger them.
+ */
+export class Plugin extends Component {
+	commands = new Map<string, Command>();
+	ribbonIcons: HTMLElement[] = [];
+	statusBarItems: HTMLElement[] = [];
+	settingTabs: PluginSettingTab[] = [];
+
+	constructor(public app: App, public manifest: PluginManifest) {
+		super();
+	}
+
+	async loadData(): Promise<any> {
+		const path = this.dataPath();
+		if (!(await this.app.vault.adapter.exists(path))) return null;
+		return JSON.parse(await this.app.vault.adapter.read(path));
+	}
+
+	async saveData(data: unknown): Promise<void> {
+		await this.app.vault.adapter.write(this.dataPath(), JSON.stringify(data, null, 2));
+	}
+
+	addCommand(command: Command): Command {
+		const registered = { ...command, id: `${this.manifest.id}:${command.id}` };
+		this.commands.set(registered.id, registered);
+		this.register(() => this.commands.delete(registered.id));
+		return registered;
+	}
+
+	removeCommand(commandId: string): void {
+		this.commands.delete(`${this.manifest.id}:${commandId}`);
+	}
+
+	addRibbonIcon(icon: string, title: string, callback: (evt: MouseEvent) => unknown): HTMLElement {
+		const iconEl = createElement();
+		iconEl.setAttr('aria-label', title);
+		iconEl.setAttr('data-icon', icon);
+		iconEl.addEventListener('click', callback);
+		this.ribbonIcons.push(iconEl);
+		return iconEl;
+	}
+
+	addStatusBarItem(): HTMLElement {
+		const itemEl = createElement();
+		itemEl.addClass('status-bar-item');
+		this.statusBarItems.push(itemEl);
+		this.register(() => itemEl.detach());
+		return itemEl;
+	}
+
+	addSettingTab(settingTab: PluginSettingTab): void {
+		this.settingTabs.push(settingTab);
+	}
+
+	registerView(type: string, viewCreator: ViewCreator): void {
+		this.app.workspace.viewCreators.set(type, viewCreator);
+		this.register(() => this.app.workspace.viewCreators.delete(type));
+	}
+
+	/**
+	 * Test helper: run a command the way the command palette does
+	 * Accepts the id with or without the plugin prefix
+	 */
+	runCommand(id: string): unknown {
+		const command = this.commands.get(id) ?? this.commands.get(`${this.manifest.id}:${id}`);
+		if (!command) throw new Error(`Command not registered: ${id}`);
+		if (command.callback) return command.callback();
+		if (command.checkCallback) return command.checkCallback(false);
+
+		const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+		if (!view) throw new Error(`Command ${id} needs an editor`);
+		if (command.editorCallback) return command.editorCallback(view.editor, view);
+		return command.editorCheckCallback?.(false, view.editor, view);
+	}
+
+	/**
+	 * Test helper: whether the command palette would list the command right now
+	 */
+	isCommandAvailable(id: string): boolean {
+		const command = this.commands.get(id) ?? this.commands.get(`${this.manifest.id}:${id}`);
+		if (!command) throw new Error(`Command not registered: ${id}`);
+		if (command.checkCallback) return command.checkCallback(true) === true;
+		if (!command.editorCallback && !command.editorCheckCallback) return true;
+
+		const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+		if (!view) return false;
+		return command.editorCheckCallback ? command.editorCheckCallback(true, view.editor, view) === true : true;
+	}
+
+	private dataPath(): string {
+		return `${this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`}/data.json`;
+	}
+}
+
+export abstract class PluginSettingTab {
+	containerEl = createElement();
+
+	constructor(public app: App, public plugin: Plugin) {}
+
+	abstract display(): void;
+
+	hide(): void {
+		// Overridden by subclasses
+	}
+}
@@ -0,0 +1,273 @@
+/**
+ * Minimal element for the stand-in UI classes
+ * Implements the parts of HTMLElement (plus Obsidian's helpers like createDiv,
+ * setText and toggle) that the plugin code uses, without a real DOM.
+ */
+
+export interface DomElementInfo {
+	cls?: string | string[];
+	text?: string;
+	attr?: Record<string, string | number | boolean>;
+	title?: string;
+	type?: string;
+	value?: string;
+	placeholder?: string;
+}
+
+export interface FakeEvent {
+	type: string;
+	target: FakeElement;
+	key?: string;
+	defaultPrevented: boolean;
+	preventDefault(): void;
+	stopPropagation(): void;
+}
+
+type Listener = (event: FakeEvent) => unknown;
+
+export class FakeElement {
+	readonly tagName: string;
+	parent: FakeElement | null = null;
+	children: FakeElement[] = [];
+	classes = new Set<string>();
+	attributes: Record<string, string> = {};
+	style: Record<string, string> = {};
+
+	// Form controls
+	value = '';
+	type = '';
+	placeholder = '';
+	min = '';
+	max = '';
+	step = '';
+	checked = false;
+	disabled = false;
+
+	private ownText = '';
+	private hidden = false;
+	private listeners = new Map<string, Listener[]>();
+
+	constructor(tagName = 'div') {
+		this.tagName = tagName.toUpperCase();
+	}
+
+	get textContent(): string {
+		return this.ownText + this.children.map(child => child.textContent).join('');
+	}
+
+	set textContent(text: string) {
+		this.empty();
+		this.ownText = text;
+	}
+
+	get classList() {
+		return {
+			add: (...names: string[]) => this.addClass(...names),
+			remove: (...names: string[]) => this.removeClass(...names),
+			contains: (name: string) => this.hasClass(name),
+			toggle: (name: string, force?: boolean) => this.toggleClass(name, force ?? !this.hasClass(name))
+		};
+	}
+
+	get className(): string {
+		return Array.from(this.classes).join(' ');
+	}
+
+	// Obsidian's element helpers
+
+	createEl(tag: string, info?: DomElementInfo | string, callback?: (el: FakeElement) => void): FakeElement {
+		const el = new FakeElement(tag);
+		if (typeof info === 'string') {
+			el.addClass(info);
+		} else if (info) {
+			if (info.cls) el.addClass(...(Array.isArray(info.cls) ? info.cls : info.cls.split(' ')));
+			if (info.text !== undefined) el.setText(info.text);
+			if (info.title !== undefined) el.setAttr('title', info.title);
+			if (info.type !== undefined) el.type = info.type;
+			if (info.value !== undefined) el.value = info.value;
+			if (info.placeholder !== undefined) el.placeholder = info.placeholder;
+			for (const [name, value] of Object.entries(info.attr ?? {})) el.setAttr(name, value);
+		}
+		this.appendChild(el);
+		callback?.(el);
+		return el;
+	}
+
+	createDiv(info?: DomElementInfo | string, callback?: (el: FakeElement) => void): FakeElement {
+		return this.createEl('div', info, callback);
+	}
+
+	createSpan(info?: DomElementInfo | string, callback?: (el: FakeElement) => void): FakeElement {
+		return this.createEl('span', info, callback);
+	}
+
+	appendChild(child: FakeElement): FakeElement {
+		child.detach();
+		child.parent = this;
+		this.children.push(child);
+		return child;
+	}
+
+	empty(): void {
+		for (const child of this.children) child.parent = null;
+		this.children = [];
+		this.ownText = '';
+	}
+
+	detach(): void {
+		if (this.parent) {
+			this.parent.children = this.parent.children.filter(child => child !== this);
+			this.parent = null;
+		}
+	}
+
+	remove(): void {
+		this.detach();
+	}
+
+	setText(text: string): void {
+		this.empty();
+		this.ownText = text;
+	}
+
+	getText(): string {
+		return this.textContent;
+	}
+
+	addClass(...names: string[]): void {
+		for (const name of names) if (name) this.classes.add(name);
+	}
+
+	removeClass(...names: string[]): void {
+		for (const name of names) this.classes.delete(name);
+	}
+
+	toggleClass(name: string, value: boolean): void {
+		if (value) this.classes.add(name); else this.classes.delete(name);
+	}
+
+	hasClass(name: string): boolean {
+		return this.classes.has(name);
+	}
+
+	setAttr(name: string, value: string | number | boolean | null): void {
+		if (value === null) delete this.attributes[name]; else this.attributes[name] = String(value);
+	}
+
+	getAttr(name: string): string | null {
+		return this.attributes[name] ?? null;
+	}
+
+	setAttribute(name: string, value: string): void {
+		this.setAttr(name, value);
+	}
+
+	getAttribute(name: string): string | null {
+		return this.getAttr(name);
+	}
+
+	hide(): void {
+		this.hidden = true;
+	}
+
+	show(): void {
+		this.hidden = false;
+	}
+
+	toggle(show: boolean): void {
+		this.hidden = !show;
+	}
+
+	/**
+	 * False when this element or any ancestor is hidden
+	 */
+	isShown(): boolean {
+		return !this.hidden && (this.parent?.isShown() ?? true);
+	}
+
+	focus(): void {
+		// No focus tracking
+	}
+
+	select(): void {
+		// No selection tracking
+	}
+
+	// Events
+
+	addEventListener(type: string, listener: Listener): void {
+		const listeners = this.listeners.get(type) ?? [];
+		listeners.push(listener);
+		this.listeners.set(type, listeners);
+	}
+
+	removeEventListener(type: string, listener: Listener): void {
+		this.listeners.set(type, (this.listeners.get(type) ?? []).filter(existing => existing !== listener));
+	}
+
+	/**
+	 * Accepts real Event objects (e.g. `new Event('input')`) and plain `{ type }` objects
+	 */
+	dispatchEvent(event: { type: string; key?: string }): boolean {
+		const fakeEvent: FakeEvent = {
+			type: event.type,
+			target: this,
+			key: event.key,
+			defaultPrevented: false,
+			preventDefault() { this.defaultPrevented = true; },
+			stopPropagation() { /* No bubbling */ }
+		};
+		for (const listener of this.listeners.get(event.type) ?? []) {
+			listener(fakeEvent);
+		}
+		return !fakeEvent.defaultPrevented;
+	}
+
+	// Test helpers
+
+	click(): void {
+		this.dispatchEvent({ type: 'click' });
+	}
+
+	/**
+	 * Type into an input: set the value and fire `input`, then `change` unless
+	 * `commit` is false - a browser fires that on blur or Enter
+	 */
+	simulateInput(value: string, commit = true): void {
+		this.value = value;
+		this.dispatchEvent({ type: 'input' });
+		if (commit) this.dispatchEvent({ type: 'change' });
+	}
+
+	/**
+	 * Every descendant matching the predicate, depth first
+	 */
+	findAll(predicate: (el: FakeElement) => boolean): FakeElement[] {
+		const found: FakeElement[] = [];
+		for (const child of this.children) {
+			if (predicate(child)) found.push(child);
+			found.push(...child.findAll(predicate));
+		}
+		return found;
+	}
+
+	find(predicate: (el: FakeElement) => boolean): FakeElement | null {
+		return this.findAll(predicate)[0] ?? null;
+	}
+
+	findByClass(name: string): FakeElement | null {
+		return this.find(el => el.hasClass(name));
+	}
+}
+
+/**
+ * The stand-in classes hand out FakeElements where Obsidian hands out HTMLElements
+ * Typed as HTMLElement so they fit the plugin code's signatures
+ */
+export function createElement(tag = 'div'): HTMLElement {
+	return new FakeElement(tag) as unknown as HTMLElement;
+}
+
+export function fake(el: HTMLElement | FakeElement): FakeElement {
+	return el as unknown as FakeElement;
+}
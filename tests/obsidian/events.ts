@@ -0,0 +1,101 @@
+export interface EventRef {
+	events: Events;
+	name: string;
+	callback: (...data: unknown[]) => unknown;
+}
+
+export class Events {
+	private handlers = new Map<string, EventRef[]>();
+
+	on(name: string, callback: (...data: any[]) => unknown): EventRef {
+		const ref: EventRef = { events: this, name, callback };
+		this.handlers.set(name, [...(this.handlers.get(name) ?? []), ref]);
+		return ref;
+	}
+
+	off(name: string, callback: (...data: any[]) => unknown): void {
+		this.handlers.set(name, (this.handlers.get(name) ?? []).filter(ref => ref.callback !== callback));
+	}
+
+	offref(ref: EventRef): void {
+		this.handlers.set(ref.name, (this.handlers.get(ref.name) ?? []).filter(existing => existing !== ref));
+	}
+
+	trigger(name: string, ...data: unknown[]): void {
+		for (const ref of this.handlers.get(name) ?? []) {
+			ref.callback(...data);
+		}
+	}
+
+	tryTrigger(ref: EventRef, data: unknown[]): void {
+		try {
+			ref.callback(...data);
+		} catch (error) {
+			console.error(error);
+		}
+	}
+}
+
+/**
+ * Lifecycle base of Plugin and views: registered cleanups run on unload
+ * Unlike Obsidian, load() and unload() return the promise from onload()/onunload()
+ * so tests can wait for async plugins.
+ */
+export class Component {
+	private loaded = false;
+	private cleanups: (() => unknown)[] = [];
+	private children: Component[] = [];
+
+	async load(): Promise<void> {
+		if (this.loaded) return;
+		this.loaded = true;
+		await this.onload();
+		await Promise.all(this.children.map(child => child.load()));
+	}
+
+	async unload(): Promise<void> {
+		if (!this.loaded) return;
+		this.loaded = false;
+		await Promise.all(this.children.splice(0).map(child => child.unload()));
+		for (const cleanup of this.cleanups.splice(0)) cleanup();
+		await this.onunload();
+	}
+
+	onload(): void | Promise<void> {
+		// Overridden by subclasses
+	}
+
+	onunload(): void | Promise<void> {
+		// Overridden by subclasses
+	}
+
+	addChild<T extends Component>(component: T): T {
+		this.children.push(component);
+		if (this.loaded) void component.load();
+		return component;
+	}
+
+	removeChild<T extends Component>(component: T): T {
+		this.children = this.children.filter(child => child !== component);
+		void component.unload();
+		return component;
+	}
+
+	register(cleanup: () => unknown): void {
+		this.cleanups.push(cleanup);
+	}
+
+	registerEvent(ref: EventRef): void {
+		this.register(() => ref.events.offref(ref));
+	}
+
+	registerDomEvent(el: { addEventListener: Function; removeEventListener: Function }, type: string, callback: (event: unknown) => unknown): void {
+		el.addEventListener(type, callback);
+		this.register(() => el.removeEventListener(type, callback));
+	}
+
+	registerInterval(id: number): number {
+		this.register(() => clearInterval(id));
+		return id;
+	}
+}
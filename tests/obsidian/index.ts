@@ -0,0 +1,83 @@
+/**
+ * In-memory stand-in for the `obsidian` module
+ * The test runner aliases `obsidian` to this file, so plugin code runs unchanged
+ * under Node. Pass stand-in objects to plugin code with `as unknown as App` etc.
+ */
+
+// Plugin code calls window.setTimeout/setInterval - Node has them on globalThis
+if (typeof (globalThis as { window?: unknown }).window === 'undefined') {
+	(globalThis as { window?: unknown }).window = globalThis;
+}
+
+export * from './app';
+export * from './dom';
+export * from './events';
+export * from './ui';
+export * from './vault';
+
+export const apiVersion = '1.0.0-test';
+
+export const Platform = {
+	isDesktop: true,
+	isMobile: false,
+	isDesktopApp: true,
+	isMobileApp: false,
+	isIosApp: false,
+	isAndroidApp: false,
+	isPhone: false,
+	isTablet: false,
+	isMacOS: false,
+	isWin: false,
+	isLinux: true,
+	isSafari: false
+};
+
+/**
+ * Never instantiated - the in-memory adapter has no base path, so
+ * `adapter instanceof FileSystemAdapter` is false as on mobile
+ */
+export class FileSystemAdapter {
+	getBasePath(): string {
+		return '';
+	}
+}
+
+export interface Debouncer<T extends unknown[], V> {
+	(...args: T): this;
+	cancel(): this;
+	run(): V | void;
+}
+
+/**
+ * Same contract as Obsidian's: `run()` calls a pending invocation immediately
+ */
+export function debounce<T extends unknown[], V>(cb: (...args: T) => V, timeout = 0, resetTimer = false): Debouncer<T, V> {
+	let timer: ReturnType<typeof setTimeout> | null = null;
+	let pendingArgs: T | null = null;
+
+	const debounced = ((...args: T) => {
+		pendingArgs = args;
+		if (timer !== null) {
+			if (!resetTimer) return debounced;
+			clearTimeout(timer);
+		}
+		timer = setTimeout(() => debounced.run(), timeout);
+		return debounced;
+	}) as Debouncer<T, V>;
+
+	debounced.cancel = () => {
+		if (timer !== null) clearTimeout(timer);
+		timer = null;
+		pendingArgs = null;
+		return debounced;
+	};
+
+	debounced.run = () => {
+		if (pendingArgs === null) return;
+		const args = pendingArgs;
+		debounced.cancel();
+		return cb(...args);
+	};
+
+	return debounced;
+}
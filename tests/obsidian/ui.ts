@@ -0,0 +1,747 @@
+import type { App } from './app';
+import { createElement } from './dom';
+
+/**
+ * Settings controls, Setting, Modal, suggesters and Notice
+ * Controls react to the same events as Obsidian's: `input` for text fields and
+ * sliders, `change` for dropdowns, `click` for toggles and buttons. Use
+ * `fake(el).simulateInput(...)` or `fake(el).click()` to drive them from tests.
+ */
+
+export class BaseComponent {
+	disabled = false;
+
+	then(callback: (component: this) => unknown): this {
+		callback(this);
+		return this;
+	}
+
+	setDisabled(disabled: boolean): this {
+		this.disabled = disabled;
+		return this;
+	}
+}
+
+export abstract class ValueComponent<T> extends BaseComponent {
+	abstract getValue(): T;
+	abstract setValue(value: T): this;
+}
+
+export abstract class AbstractTextComponent<T extends HTMLInputElement | HTMLTextAreaElement> extends ValueComponent<string> {
+	constructor(public inputEl: T) {
+		super();
+	}
+
+	getValue(): string {
+		return this.inputEl.value;
+	}
+
+	setValue(value: string): this {
+		this.inputEl.value = value;
+		return this;
+	}
+
+	setPlaceholder(placeholder: string): this {
+		this.inputEl.placeholder = placeholder;
+		return this;
+	}
+
+	onChange(callback: (value: string) => unknown): this {
+		this.inputEl.addEventListener('input', () => callback(this.getValue()));
+		return this;
+	}
+
+	onChanged(): void {
+		this.inputEl.dispatchEvent({ type: 'input' } as Event);
+	}
+}
+
+export class TextComponent extends AbstractTextComponent<HTMLInputElement> {
+	constructor(containerEl: HTMLElement) {
+		super(containerEl.createEl('input', { type: 'text' }));
+	}
+}
+
+export class TextAreaComponent extends AbstractTextComponent<HTMLTextAreaElement> {
+	constructor(containerEl: HTMLElement) {
+		super(containerEl.createEl('textarea'));
+	}
+}
+
+export class ToggleComponent extends ValueComponent<boolean> {
+	toggleEl: HTMLElement;
+	private value = false;
+	private changeCallback: ((value: boolean) => unknown) | null = null;
+
+	constructor(containerEl: HTMLElement) {
+		super();
+		this.toggleEl = containerEl.createDiv({ cls: 'checkbox-container' });
+		this.toggleEl.addEventListener('click', () => this.onClick());
+	}
+
+	getValue(): boolean {
+		return this.value;
+	}
+
+	setValue(value: boolean): this {
+		const changed = value !== this.value;
+		this.value = value;
+		this.toggleEl.toggleClass('is-enabled', value);
+		if (changed) this.changeCallback?.(value);
+		return this;
+	}
+
+	setTooltip(tooltip: string): this {
+		this.toggleEl.setAttr('aria-label', tooltip);
+		return this;
+	}
+
+	onClick(): void {
+		if (!this.disabled) this.setValue(!this.value);
+	}
+
+	onChange(callback: (value: boolean) => unknown): this {
+		this.changeCallback = callback;
+		return this;
+	}
+}
+
+export class DropdownComponent extends ValueComponent<string> {
+	selectEl: HTMLSelectElement;
+
+	constructor(containerEl: HTMLElement) {
+		super();
+		this.selectEl = containerEl.createEl('select', { cls: 'dropdown' });
+	}
+
+	addOption(value: string, display: string): this {
+		this.selectEl.createEl('option', { value, text: display });
+		if (this.selectEl.value === '') this.selectEl.value = value;
+		return this;
+	}
+
+	addOptions(options: Record<string, string>): this {
+		for (const [value, display] of Object.entries(options)) this.addOption(value, display);
+		return this;
+	}
+
+	getValue(): string {
+		return this.selectEl.value;
+	}
+
+	setValue(value: string): this {
+		this.selectEl.value = value;
+		return this;
+	}
+
+	onChange(callback: (value: string) => unknown): this {
+		this.selectEl.addEventListener('change', () => callback(this.getValue()));
+		return this;
+	}
+}
+
+export class SliderComponent extends ValueComponent<number> {
+	sliderEl: HTMLInputElement;
+
+	constructor(containerEl: HTMLElement) {
+		super();
+		this.sliderEl = containerEl.createEl('input', { type: 'range', cls: 'slider' });
+	}
+
+	setLimits(min: number | null, max: number | null, step: number | 'any'): this {
+		this.sliderEl.min = String(min ?? '');
+		this.sliderEl.max = String(max ?? '');
+		this.sliderEl.step = String(step);
+		return this;
+	}
+
+	setDynamicTooltip(): this {
+		return this;
+	}
+
+	getValue(): number {
+		return Number(this.sliderEl.value);
+	}
+
+	setValue(value: number): this {
+		this.sliderEl.value = String(value);
+		return this;
+	}
+
+	onChange(callback: (value: number) => unknown): this {
+		this.sliderEl.addEventListener('input', () => callback(this.getValue()));
+		return this;
+	}
+}
+
+export class ColorComponent extends ValueComponent<string> {
+	colorPickerEl: HTMLInputElement;
+
+	constructor(containerEl: HTMLElement) {
+		super();
+		this.colorPickerEl = containerEl.createEl('input', { type: 'color' });
+	}
+
+	getValue(): string {
+		return this.colorPickerEl.value;
+	}
+
+	setValue(value: string): this {
+		this.colorPickerEl.value = value;
+		return this;
+	}
+
+	onChange(callback: (value: string) => unknown): this {
+		this.colorPickerEl.addEventListener('input', () => callback(this.getValue()));
+		return this;
+	}
+}
+
+export class ButtonComponent extends BaseComponent {
+	buttonEl: HTMLButtonElement;
+
+	constructor(containerEl: HTMLElement) {
+		super();
+		this.buttonEl = containerEl.createEl('button');
+	}
+
+	setButtonText(name: string): this {
+		this.buttonEl.setText(name);
+		return this;
+	}
+
+	setIcon(icon: string): this {
+		this.buttonEl.setAttr('data-icon', icon);
+		return this;
+	}
+
+	setTooltip(tooltip: string): this {
+		this.buttonEl.setAttr('aria-label', tooltip);
+		return this;
+	}
+
+	setCta(): this {
+		this.buttonEl.addClass('mod-cta');
+		return this;
+	}
+
+	setWarning(): this {
+		this.buttonEl.addClass('mod-warning');
+		return this;
+	}
+
+	onClick(callback: (evt: MouseEvent) => unknown): this {
+		this.buttonEl.addEventListener('click', event => {
+			if (!this.disabled) callback(event);
+		});
+		return this;
+	}
+}
+
+export class ExtraButtonComponent extends BaseComponent {
+	extraSettingsEl: HTMLElement;
+
+	constructor(containerEl: HTMLElement) {
+		super();
+		this.extraSettingsEl = containerEl.createDiv({ cls: 'clickable-icon extra-setting-button' });
+	}
+
+	setIcon(icon: string): this {
+		this.extraSettingsEl.setAttr('data-icon', icon);
+		return this;
+	}
+
+	setTooltip(tooltip: string): this {
+		this.extraSettingsEl.setAttr('aria-label', tooltip);
+		return this;
+	}
+
+	onClick(callback: () => unknown): this {
+		this.extraSettingsEl.addEventListener('click', () => {
+			if (!this.disabled) callback();
+		});
+		return this;
+	}
+}
+
+export class Setting {
+	settingEl: HTMLElement;
+	infoEl: HTMLElement;
+	nameEl: HTMLElement;
+	descEl: HTMLElement;
+	controlEl: HTMLElement;
+	components: BaseComponent[] = [];
+
+	constructor(containerEl: HTMLElement) {
+		this.settingEl = containerEl.createDiv({ cls: 'setting-item' });
+		this.infoEl = this.settingEl.createDiv({ cls: 'setting-item-info' });
+		this.nameEl = this.infoEl.createDiv({ cls: 'setting-item-name' });
+		this.descEl = this.infoEl.createDiv({ cls: 'setting-item-description' });
+		this.controlEl = this.settingEl.createDiv({ cls: 'setting-item-control' });
+	}
+
+	setName(name: string): this {
+		this.nameEl.setText(name);
+		return this;
+	}
+
+	setDesc(desc: string): this {
+		this.descEl.setText(desc);
+		return this;
+	}
+
+	setClass(cls: string): this {
+		this.settingEl.addClass(cls);
+		return this;
+	}
+
+	setTooltip(tooltip: string): this {
+		this.nameEl.setAttr('aria-label', tooltip);
+		return this;
+	}
+
+	setHeading(): this {
+		this.settingEl.addClass('setting-item-heading');
+		return this;
+	}
+
+	setDisabled(disabled: boolean): this {
+		this.settingEl.toggleClass('is-disabled', disabled);
+		this.components.forEach(component => component.setDisabled(disabled));
+		return this;
+	}
+
+	addText(callback: (component: TextComponent) => unknown): this {
+		return this.add(new TextComponent(this.controlEl), callback);
+	}
+
+	addTextArea(callback: (component: TextAreaComponent) => unknown): this {
+		return this.add(new TextAreaComponent(this.controlEl), callback);
+	}
+
+	addToggle(callback: (component: ToggleComponent) => unknown): this {
+		return this.add(new ToggleComponent(this.controlEl), callback);
+	}
+
+	addDropdown(callback: (component: DropdownComponent) => unknown): this {
+		return this.add(new DropdownComponent(this.controlEl), callback);
+	}
+
+	addSlider(callback: (component: SliderComponent) => unknown): this {
+		return this.add(new SliderComponent(this.controlEl), callback);
+	}
+
+	addColorPicker(callback: (component: ColorComponent) => unknown): this {
+		return this.add(new ColorComponent(this.controlEl), callback);
+	}
+
+	addButton(callback: (component: ButtonComponent) => unknown): this {
+		return this.add(new ButtonComponent(this.controlEl), callback);
+	}
+
+	addExtraButton(callback: (component: ExtraButtonComponent) => unknown): this {
+		return this.add(new ExtraButtonComponent(this.controlEl), callback);
+	}
+
+	then(callback: (setting: this) => unknown): this {
+		callback(this);
+		return this;
+	}
+
+	private add<T extends BaseComponent>(component: T, callback: (component: T) => unknown): this {
+		this.components.push(component);
+		callback(component);
+		return this;
+	}
+}
+
+type KeymapEventListener = (evt: KeyboardEvent, ctx: { key: string; modifiers: string }) => false | unknown;
+
+interface KeymapEventHandler {
+	modifiers: string[];
+	key: string | null;
+	func: KeymapEventListener;
+}
+
+export class Scope {
+	private handlers: KeymapEventHandler[] = [];
+
+	register(modifiers: string[] | null, key: string | null, func: KeymapEventListener): KeymapEventHandler {
+		const handler = { modifiers: modifiers ?? [], key, func };
+		this.handlers.push(handler);
+		return handler;
+	}
+
+	unregister(handler: KeymapEventHandler): void {
+		this.handlers = this.handlers.filter(existing => existing !== handler);
+	}
+
+	/**
+	 * Test helper: press a key while this scope is active
+	 * Returns false when a handler consumed the event
+	 */
+	press(key: string, modifiers: string[] = [], target: unknown = null): boolean {
+		const event = {
+			key,
+			target,
+			isComposing: false,
+			preventDefault() { /* Nothing to prevent */ }
+		} as unknown as KeyboardEvent;
+
+		for (const handler of this.handlers) {
+			const sameModifiers = handler.modifiers.length === modifiers.length
+				&& handler.modifiers.every(modifier => modifiers.includes(modifier));
+			if ((handler.key === null || handler.key === key) && sameModifiers) {
+				if (handler.func(event, { key, modifiers: modifiers.join(',') }) === false) return false;
+			}
+		}
+		return true;
+	}
+}
+
+export class Modal {
+	app: App;
+	scope = new Scope();
+	containerEl = createElement();
+	modalEl: HTMLElement;
+	titleEl: HTMLElement;
+	contentEl: HTMLElement;
+	shouldRestoreSelection = false;
+	isOpen = false;
+	private closeCallback: (() => unknown) | null = null;
+
+	/**
+	 * Modals currently open, most recent last - lets tests find what the code opened
+	 */
+	static openModals: Modal[] = [];
+
+	constructor(app: App) {
+		this.app = app;
+		this.modalEl = this.containerEl.createDiv({ cls: 'modal' });
+		this.titleEl = this.modalEl.createDiv({ cls: 'modal-title' });
+		this.contentEl = this.modalEl.createDiv({ cls: 'modal-content' });
+	}
+
+	open(): void {
+		if (this.isOpen) return;
+		this.isOpen = true;
+		Modal.openModals.push(this);
+		void this.onOpen();
+	}
+
+	close(): void {
+		if (!this.isOpen) return;
+		this.isOpen = false;
+		Modal.openModals = Modal.openModals.filter(modal => modal !== this);
+		this.onClose();
+		this.closeCallback?.();
+	}
+
+	onOpen(): void | Promise<void> {
+		// Overridden by subclasses
+	}
+
+	onClose(): void {
+		// Overridden by subclasses
+	}
+
+	setTitle(title: string): this {
+		this.titleEl.setText(title);
+		return this;
+	}
+
+	setContent(content: string): this {
+		this.contentEl.setText(content);
+		return this;
+	}
+
+	setCloseCallback(callback: () => unknown): this {
+		this.closeCallback = callback;
+		return this;
+	}
+
+	/**
+	 * Test helper: what Escape does
+	 */
+	pressEscape(): void {
+		this.close();
+	}
+}
+
+export interface FuzzyMatch<T> {
+	item: T;
+	match: { score: number; matches: [number, number][] };
+}
+
+export abstract class SuggestModal<T> extends Modal {
+	limit = 100;
+	emptyStateText = 'No results found.';
+	inputEl: HTMLInputElement;
+	resultContainerEl: HTMLElement;
+
+	constructor(app: App) {
+		super(app);
+		this.inputEl = this.modalEl.createEl('input', { type: 'text', cls: 'prompt-input' });
+		this.resultContainerEl = this.modalEl.createDiv({ cls: 'prompt-results' });
+	}
+
+	setPlaceholder(placeholder: string): void {
+		this.inputEl.placeholder = placeholder;
+	}
+
+	setInstructions(): void {
+		// Not rendered
+	}
+
+	onNoSuggestion(): void {
+		// Not rendered
+	}
+
+	/**
+	 * Same order as Obsidian: the modal closes before the choice is reported
+	 */
+	selectSuggestion(value: T, evt: MouseEvent | KeyboardEvent): void {
+		this.close();
+		this.onChooseSuggestion(value, evt);
+	}
+
+	/**
+	 * Test helper: suggestions for `query`, as the user would see them
+	 */
+	suggest(query: string): T[] {
+		return (this.getSuggestions(query) as T[]).slice(0, this.limit);
+	}
+
+	/**
+	 * Test helper: type `query` and pick the suggestion at `index`
+	 */
+	choose(query: string, index = 0): void {
+		const suggestions = this.suggest(query);
+		if (index >= suggestions.length) throw new Error(`No suggestion ${index} for "${query}"`);
+		this.selectSuggestion(suggestions[index], {} as MouseEvent);
+	}
+
+	abstract getSuggestions(query: string): T[] | Promise<T[]>;
+	abstract renderSuggestion(value: T, el: HTMLElement): void;
+	abstract onChooseSuggestion(item: T, evt: MouseEvent | KeyboardEvent): void;
+}
+
+/**
+ * Characters of the query must appear in order; earlier, tighter matches score higher
+ */
+function fuzzyScore(query: string, text: string): number | null {
+	const needle = query.toLowerCase().replace(/\s+/g, '');
+	const haystack = text.toLowerCase();
+	let position = -1;
+	let score = 0;
+	for (const char of needle) {
+		const next = haystack.indexOf(char, position + 1);
+		if (next < 0) return null;
+		score -= next - position - 1;
+		position = next;
+	}
+	return score;
+}
+
+export abstract class FuzzySuggestModal<T> extends SuggestModal<FuzzyMatch<T>> {
+	getSuggestions(query: string): FuzzyMatch<T>[] {
+		const matches: FuzzyMatch<T>[] = [];
+		for (const item of this.getItems()) {
+			const score = fuzzyScore(query, this.getItemText(item));
+			if (score !== null) matches.push({ item, match: { score, matches: [] } });
+		}
+		return matches.sort((a, b) => b.match.score - a.match.score);
+	}
+
+	renderSuggestion(match: FuzzyMatch<T>, el: HTMLElement): void {
+		el.setText(this.getItemText(match.item));
+	}
+
+	onChooseSuggestion(match: FuzzyMatch<T>, evt: MouseEvent | KeyboardEvent): void {
+		this.onChooseItem(match.item, evt);
+	}
+
+	abstract getItems(): T[];
+	abstract getItemText(item: T): string;
+	abstract onChooseItem(item: T, evt: MouseEvent | KeyboardEvent): void;
+}
+
+export abstract class AbstractInputSuggest<T> {
+	limit = 100;
+	private selectCallback: ((value: T, evt: MouseEvent | KeyboardEvent) => unknown) | null = null;
+
+	constructor(public app: App, private textInputEl: HTMLInputElement | HTMLDivElement) {}
+
+	setValue(value: string): void {
+		(this.textInputEl as HTMLInputElement).value = value;
+	}
+
+	getValue(): string {
+		return (this.textInputEl as HTMLInputElement).value;
+	}
+
+	onSelect(callback: (value: T, evt: MouseEvent | KeyboardEvent) => unknown): this {
+		this.selectCallback = callback;
+		return this;
+	}
+
+	selectSuggestion(value: T, evt: MouseEvent | KeyboardEvent): void {
+		this.selectCallback?.(value, evt);
+	}
+
+	open(): void {
+		// Not rendered
+	}
+
+	close(): void {
+		// Not rendered
+	}
+
+	protected abstract getSuggestions(query: string): T[] | Promise<T[]>;
+	abstract renderSuggestion(value: T, el: HTMLElement): void;
+}
+
+/**
+ * Records every notice instead of showing it
+ */
+export class Notice {
+	static messages: string[] = [];
+
+	noticeEl = createElement();
+
+	constructor(message: string, public duration?: number) {
+		Notice.messages.push(message);
+		this.noticeEl.setText(message);
+	}
+
+	setMessage(message: string): this {
+		Notice.messages.push(message);
+		this.noticeEl.setText(message);
+		return this;
+	}
+
+	hide(): void {
+		// Nothing shown
+	}
+}
+
+/**
+ * Records the icon name instead of drawing it
+ */
+export function setIcon(parent: HTMLElement, iconId: string): void {
+	parent.setAttr('data-icon', iconId);
+}
+
+export class MenuItem {
+	title = '';
+	icon: string | null = null;
+	checked: boolean | null = null;
+	disabled = false;
+	isLabel = false;
+	warning = false;
+	section = '';
+	private callback: ((evt: MouseEvent | KeyboardEvent) => unknown) | null = null;
+
+	setTitle(title: string): this {
+		this.title = title;
+		return this;
+	}
+
+	setIcon(icon: string | null): this {
+		this.icon = icon;
+		return this;
+	}
+
+	setChecked(checked: boolean | null): this {
+		this.checked = checked;
+		return this;
+	}
+
+	setDisabled(disabled: boolean): this {
+		this.disabled = disabled;
+		return this;
+	}
+
+	setIsLabel(isLabel: boolean): this {
+		this.isLabel = isLabel;
+		return this;
+	}
+
+	setWarning(isWarning: boolean): this {
+		this.warning = isWarning;
+		return this;
+	}
+
+	setSection(section: string): this {
+		this.section = section;
+		return this;
+	}
+
+	onClick(callback: (evt: MouseEvent | KeyboardEvent) => unknown): this {
+		this.callback = callback;
+		return this;
+	}
+
+	/**
+	 * Test helper: what clicking the item does - nothing when disabled
+	 */
+	click(): unknown {
+		if (this.disabled || this.isLabel) return undefined;
+		return this.callback?.({} as MouseEvent);
+	}
+}
+
+export class Menu {
+	/**
+	 * The menu shown most recently - lets tests reach menus the code opened
+	 */
+	static lastShown: Menu | null = null;
+
+	items: (MenuItem | 'separator')[] = [];
+	private hideCallback: (() => unknown) | null = null;
+
+	addItem(callback: (item: MenuItem) => unknown): this {
+		const item = new MenuItem();
+		callback(item);
+		this.items.push(item);
+		return this;
+	}
+
+	addSeparator(): this {
+		this.items.push('separator');
+		return this;
+	}
+
+	showAtMouseEvent(evt: MouseEvent): this {
+		Menu.lastShown = this;
+		return this;
+	}
+
+	showAtPosition(position: { x: number; y: number }): this {
+		Menu.lastShown = this;
+		return this;
+	}
+
+	hide(): this {
+		if (Menu.lastShown === this) Menu.lastShown = null;
+		this.hideCallback?.();
+		return this;
+	}
+
+	close(): void {
+		this.hide();
+	}
+
+	onHide(callback: () => unknown): void {
+		this.hideCallback = callback;
+	}
+
+	/**
+	 * Test helper: the item with this title
+	 */
+	getItem(title: string): MenuItem {
+		const item = this.items.find((candidate): candidate is MenuItem => candidate !== 'separator' && candidate.title === title);
+		if (!item) throw new Error(`No menu item "${title}"`);
+		return item;
+	}
+}
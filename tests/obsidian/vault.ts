@@ -0,0 +1,396 @@
+import { Events } from './events';
+
+/**
+ * In-memory vault: a DataAdapter backed by a Map, and the Vault/TFile/TFolder view of it
+ */
+
+export function normalizePath(path: string): string {
+	const normalized = path
+		.replace(/\\/g, '/')
+		.replace(/\/+/g, '/')
+		.replace(/^\/|\/$/g, '')
+		.replace(/[\u00A0\u202F]/g, ' ');
+	return normalized === '' ? '/' : normalized;
+}
+
+function parentOf(path: string): string {
+	const slash = path.lastIndexOf('/');
+	return slash > 0 ? path.slice(0, slash) : '';
+}
+
+function nameOf(path: string): string {
+	return path.slice(path.lastIndexOf('/') + 1);
+}
+
+export interface Stat {
+	type: 'file' | 'folder';
+	ctime: number;
+	mtime: number;
+	size: number;
+}
+
+interface StoredFile {
+	content: string;
+	ctime: number;
+	mtime: number;
+}
+
+type AdapterMethod = 'read' | 'write' | 'append' | 'remove' | 'rename' | 'mkdir' | 'stat' | 'list' | 'exists';
+
+/**
+ * DataAdapter with vault-relative paths ('' and '/' are the root)
+ * Writes create missing parent folders.
+ */
+export class InMemoryAdapter {
+	private files = new Map<string, StoredFile>();
+	private folders = new Set<string>(['']);
+	private failures = new Map<AdapterMethod, { remaining: number; error: Error }>();
+
+	constructor(private name = 'test-vault') {}
+
+	getName(): string {
+		return this.name;
+	}
+
+	async exists(path: string): Promise<boolean> {
+		this.maybeFail('exists');
+		const key = this.key(path);
+		return this.files.has(key) || this.folders.has(key);
+	}
+
+	async stat(path: string): Promise<Stat | null> {
+		this.maybeFail('stat');
+		return this.statSync(path);
+	}
+
+	async list(path: string): Promise<{ files: string[]; folders: string[] }> {
+		this.maybeFail('list');
+		const key = this.key(path);
+		if (!this.folders.has(key)) throw new Error(`Folder not found: ${path}`);
+		return {
+			files: Array.from(this.files.keys()).filter(file => parentOf(file) === key),
+			folders: Array.from(this.folders).filter(folder => folder !== '' && parentOf(folder) === key)
+		};
+	}
+
+	async read(path: string): Promise<string> {
+		this.maybeFail('read');
+		return this.readSync(path);
+	}
+
+	async write(path: string, data: string): Promise<void> {
+		this.maybeFail('write');
+		this.writeSync(path, data);
+	}
+
+	async append(path: string, data: string): Promise<void> {
+		this.maybeFail('append');
+		const existing = this.files.get(this.key(path));
+		this.writeSync(path, (existing?.content ?? '') + data);
+	}
+
+	async remove(path: string): Promise<void> {
+		this.maybeFail('remove');
+		if (!this.files.delete(this.key(path))) throw new Error(`File not found: ${path}`);
+	}
+
+	async rename(path: string, newPath: string): Promise<void> {
+		this.maybeFail('rename');
+		const from = this.key(path);
+		const to = this.key(newPath);
+		if (this.files.has(to) || this.folders.has(to)) throw new Error(`Destination exists: ${newPath}`);
+		const file = this.files.get(from);
+		if (file) {
+			this.files.delete(from);
+			this.ensureFolder(parentOf(to));
+			this.files.set(to, file);
+			return;
+		}
+		if (!this.folders.has(from) || from === '') throw new Error(`File not found: ${path}`);
+
+		// Folders move with everything inside them
+		const moved = (candidate: string) => to + candidate.slice(from.length);
+		const inside = (candidate: string) => candidate === from || candidate.startsWith(`${from}/`);
+		for (const [key, content] of Array.from(this.files).filter(([key]) => inside(key))) {
+			this.files.delete(key);
+			this.files.set(moved(key), content);
+		}
+		for (const folder of Array.from(this.folders).filter(inside)) {
+			this.folders.delete(folder);
+			this.folders.add(moved(folder));
+		}
+		this.ensureFolder(parentOf(to));
+	}
+
+	async copy(path: string, newPath: string): Promise<void> {
+		this.writeSync(newPath, this.readSync(path));
+	}
+
+	async mkdir(path: string): Promise<void> {
+		this.maybeFail('mkdir');
+		this.ensureFolder(this.key(path));
+	}
+
+	async rmdir(path: string, recursive: boolean): Promise<void> {
+		const key = this.key(path);
+		const inside = (candidate: string) => candidate.startsWith(`${key}/`);
+		const contents = Array.from(this.files.keys()).filter(inside);
+		if (contents.length > 0 && !recursive) throw new Error(`Folder not empty: ${path}`);
+		contents.forEach(file => this.files.delete(file));
+		Array.from(this.folders).filter(inside).forEach(folder => this.folders.delete(folder));
+		this.folders.delete(key);
+	}
+
+	getResourcePath(path: string): string {
+		return `app://local/${this.key(path)}`;
+	}
+
+	// Synchronous access for Vault and tests
+
+	statSync(path: string): Stat | null {
+		const key = this.key(path);
+		const file = this.files.get(key);
+		// Bytes as UTF-8, like the real adapter
+		if (file) return { type: 'file', ctime: file.ctime, mtime: file.mtime, size: new TextEncoder().encode(file.content).length };
+		if (this.folders.has(key)) return { type: 'folder', ctime: 0, mtime: 0, size: 0 };
+		return null;
+	}
+
+	readSync(path: string): string {
+		const file = this.files.get(this.key(path));
+		if (!file) throw new Error(`File not found: ${path}`);
+		return file.content;
+	}
+
+	writeSync(path: string, data: string): void {
+		const key = this.key(path);
+		if (this.folders.has(key)) throw new Error(`Is a folder: ${path}`);
+		const now = Date.now();
+		const existing = this.files.get(key);
+		this.ensureFolder(parentOf(key));
+		this.files.set(key, { content: data, ctime: existing?.ctime ?? now, mtime: now });
+	}
+
+	hasFile(path: string): boolean {
+		return this.files.has(this.key(path));
+	}
+
+	hasFolder(path: string): boolean {
+		return this.folders.has(this.key(path));
+	}
+
+	allFiles(): string[] {
+		return Array.from(this.files.keys()).sort();
+	}
+
+	allFolders(): string[] {
+		return Array.from(this.folders).sort();
+	}
+
+	// Test helpers
+
+	/**
+	 * Backdate a file, e.g. to test age-based cleanup
+	 */
+	setMtime(path: string, mtime: number): void {
+		const file = this.files.get(this.key(path));
+		if (!file) throw new Error(`File not found: ${path}`);
+		file.mtime = mtime;
+	}
+
+	/**
+	 * Make the next `times` calls of `method` reject
+	 */
+	failNext(method: AdapterMethod, times = 1, error = new Error(`Simulated ${method} failure`)): void {
+		this.failures.set(method, { remaining: times, error });
+	}
+
+	private maybeFail(method: AdapterMethod): void {
+		const failure = this.failures.get(method);
+		if (!failure) return;
+		if (--failure.remaining <= 0) this.failures.delete(method);
+		throw failure.error;
+	}
+
+	private key(path: string): string {
+		const normalized = normalizePath(path);
+		return normalized === '/' ? '' : normalized;
+	}
+
+	private ensureFolder(path: string): void {
+		let folder = path;
+		while (folder !== '' && !this.folders.has(folder)) {
+			if (this.files.has(folder)) throw new Error(`Is a file: ${folder}`);
+			this.folders.add(folder);
+			folder = parentOf(folder);
+		}
+	}
+}
+
+export abstract class TAbstractFile {
+	vault: Vault;
+	path: string;
+	name: string;
+	parent: TFolder | null = null;
+
+	constructor(vault: Vault, path: string) {
+		this.vault = vault;
+		this.path = path;
+		this.name = nameOf(path);
+	}
+}
+
+export class TFile extends TAbstractFile {
+	basename: string;
+	extension: string;
+	stat: { ctime: number; mtime: number; size: number } = { ctime: 0, mtime: 0, size: 0 };
+
+	constructor(vault: Vault, path: string) {
+		super(vault, path);
+		const dot = this.name.lastIndexOf('.');
+		this.basename = dot > 0 ? this.name.slice(0, dot) : this.name;
+		this.extension = dot > 0 ? this.name.slice(dot + 1) : '';
+	}
+}
+
+export class TFolder extends TAbstractFile {
+	children: TAbstractFile[] = [];
+
+	isRoot(): boolean {
+		return this.path === '/';
+	}
+}
+
+/**
+ * File-level API over the adapter
+ * Objects are built on demand, so the same path may give different (equal) instances.
+ * Files under the config folder are hidden, as in Obsidian.
+ */
+export class Vault extends Events {
+	configDir = '.obsidian';
+
+	constructor(readonly adapter: InMemoryAdapter = new InMemoryAdapter()) {
+		super();
+	}
+
+	getName(): string {
+		return this.adapter.getName();
+	}
+
+	getRoot(): TFolder {
+		return this.buildFolder('');
+	}
+
+	getAbstractFileByPath(path: string): TAbstractFile | null {
+		const normalized = normalizePath(path);
+		if (normalized === '/') return this.getRoot();
+		if (this.adapter.hasFile(normalized)) return this.buildFile(normalized);
+		if (this.adapter.hasFolder(normalized)) return this.buildFolder(normalized);
+		return null;
+	}
+
+	getFileByPath(path: string): TFile | null {
+		const file = this.getAbstractFileByPath(path);
+		return file instanceof TFile ? file : null;
+	}
+
+	getFolderByPath(path: string): TFolder | null {
+		const folder = this.getAbstractFileByPath(path);
+		return folder instanceof TFolder ? folder : null;
+	}
+
+	getFiles(): TFile[] {
+		return this.adapter.allFiles().filter(path => !this.isHidden(path)).map(path => this.buildFile(path));
+	}
+
+	getMarkdownFiles(): TFile[] {
+		return this.getFiles().filter(file => file.extension === 'md');
+	}
+
+	getAllLoadedFiles(): TAbstractFile[] {
+		return [...this.getAllFolders(true), ...this.getFiles()];
+	}
+
+	getAllFolders(includeRoot = false): TFolder[] {
+		const folders = this.adapter.allFolders()
+			.filter(path => path !== '' && !this.isHidden(path))
+			.map(path => this.buildFolder(path));
+		return includeRoot ? [this.getRoot(), ...folders] : folders;
+	}
+
+	async read(file: TFile): Promise<string> {
+		return this.adapter.read(file.path);
+	}
+
+	async cachedRead(file: TFile): Promise<string> {
+		return this.adapter.read(file.path);
+	}
+
+	async create(path: string, data: string): Promise<TFile> {
+		const normalized = normalizePath(path);
+		if (await this.adapter.exists(normalized)) throw new Error('File already exists.');
+		await this.adapter.write(normalized, data);
+		const file = this.buildFile(normalized);
+		this.trigger('create', file);
+		return file;
+	}
+
+	async createFolder(path: string): Promise<TFolder> {
+		const normalized = normalizePath(path);
+		if (await this.adapter.exists(normalized)) throw new Error('Folder already exists.');
+		await this.adapter.mkdir(normalized);
+		return this.buildFolder(normalized);
+	}
+
+	async modify(file: TFile, data: string): Promise<void> {
+		await this.adapter.write(file.path, data);
+		this.trigger('modify', file);
+	}
+
+	async append(file: TFile, data: string): Promise<void> {
+		await this.adapter.append(file.path, data);
+		this.trigger('modify', file);
+	}
+
+	async delete(file: TAbstractFile): Promise<void> {
+		if (file instanceof TFolder) {
+			await this.adapter.rmdir(file.path, true);
+		} else {
+			await this.adapter.remove(file.path);
+		}
+		this.trigger('delete', file);
+	}
+
+	async rename(file: TAbstractFile, newPath: string): Promise<void> {
+		const oldPath = file.path;
+		await this.adapter.rename(oldPath, normalizePath(newPath));
+		file.path = normalizePath(newPath);
+		file.name = nameOf(file.path);
+		this.trigger('rename', file, oldPath);
+	}
+
+	private isHidden(path: string): boolean {
+		return path === this.configDir || path.startsWith(`${this.configDir}/`);
+	}
+
+	private buildFile(path: string): TFile {
+		const file = new TFile(this, path);
+		file.parent = this.buildFolder(parentOf(path), false);
+		const stat = this.adapter.statSync(path);
+		if (stat) file.stat = { ctime: stat.ctime, mtime: stat.mtime, size: stat.size };
+		return file;
+	}
+
+	private buildFolder(path: string, withChildren = true): TFolder {
+		const folder = new TFolder(this, path === '' ? '/' : path);
+		if (path === '') folder.name = '';
+		if (withChildren) {
+			const inFolder = (candidate: string) => parentOf(candidate) === path && !this.isHidden(candidate);
+			folder.children = [
+				...this.adapter.allFolders().filter(child => child !== '' && inFolder(child)).map(child => this.buildFolder(child, false)),
+				...this.adapter.allFiles().filter(inFolder).map(child => new TFile(this, child))
+			];
+		}
+		return folder;
+	}
+}
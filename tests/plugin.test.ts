@@ -0,0 +1,353 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import * as assert from 'node:assert/strict';
+import type { App as ObsidianApp, PluginManifest } from 'obsidian';
+import ExamplePlugin from '../src/main';
+import { SETTINGS_EXPORT_FILE } from '../src/settings/transfer';
+import { App, fake, InMemoryAdapter, MarkdownView, Menu, Modal, Notice, Plugin, SuggestModal, WorkspaceLeaf } from './obsidian';
+import { logger } from '../src/utils/Logger';
+import { captureLogs, TEST_MANIFEST } from './helpers';
+
+const DATA_PATH = `${TEST_MANIFEST.dir}/data.json`;
+
+describe('ExamplePlugin', () => {
+	let adapter: InMemoryAdapter;
+	let plugin: ExamplePlugin;
+	// The same plugin through the stand-in's test helpers
+	let testPlugin: Plugin;
+	let app: App;
+
+	beforeEach(async () => {
+		captureLogs('warn');
+		adapter = new InMemoryAdapter();
+		app = new App(adapter);
+		plugin = new ExamplePlugin(app as unknown as ObsidianApp, TEST_MANIFEST as PluginManifest);
+		testPlugin = plugin as unknown as Plugin;
+		Notice.messages = [];
+		await testPlugin.load();
+	});
+
+	afterEach(async () => {
+		await testPlugin.unload();
+	});
+
+	it('registers its commands', () => {
+		const ids = Array.from(testPlugin.commands.keys());
+		for (const id of ['open-example-modal', 'create-debug-report', 'open-log-viewer', 'insert-example-setting', 'show-file-info', 'export-settings', 'import-settings', 'reset-settings']) {
+			assert.ok(ids.includes(`${TEST_MANIFEST.id}:${id}`), `missing command ${id}`);
+		}
+	});
+
+	it('exports settings without secrets', async () => {
+		plugin.settings.exampleApiKey = 'secret-key';
+		testPlugin.runCommand('export-settings');
+		// Action commands don't return the action's promise - let it finish
+		await new Promise(resolve => setImmediate(resolve));
+
+		const exported = adapter.readSync(SETTINGS_EXPORT_FILE);
+		assert.doesNotMatch(exported, /secret-key/);
+		assert.equal(JSON.parse(exported).exampleSetting, plugin.settings.exampleSetting);
+		assert.match(Notice.messages[0], /Settings exported/);
+	});
+
+	it('shows the changes an import makes and applies them once confirmed', async () => {
+		plugin.settings.exampleApiKey = 'secret-key';
+		await app.vault.create('shared/settings.json', JSON.stringify({
+			version: 0,
+			exampleSetting: 'imported',
+			exampleApiKey: 'their-key',
+			exampleColor: 'purple',
+			futureSetting: 1,
+			logging: { tagFilters: { ui: ['validation'] } }
+		}));
+
+		const importing = plugin.importSettings();
+		(Modal.openModals[Modal.openModals.length - 1] as SuggestModal<unknown>).choose('shared/settings');
+		await new Promise(resolve => setImmediate(resolve));
+
+		const modal = Modal.openModals[Modal.openModals.length - 1];
+		const rows = fake(modal.contentEl).findAll(el => el.hasClass('example-settings-change')).map(row => row.textContent);
+		assert.equal(fake(modal.titleEl).textContent, 'Import settings from settings.json');
+		assert.deepEqual(rows, [
+			'exampleSetting"default" → "imported"',
+			'exampleApiKey•••••• → ••••••',
+			'logging.tagFilters.ui(not set) → {"include":["validation"]}'
+		]);
+		assert.match(fake(modal.contentEl).findByClass('example-settings-repairs')?.textContent ?? '', /^exampleColor: /);
+
+		fake(modal.contentEl).find(el => el.tagName === 'BUTTON' && el.textContent === 'Import')?.click();
+		await importing;
+
+		assert.equal(plugin.settings.exampleSetting, 'imported');
+		assert.equal(plugin.settings.exampleApiKey, 'their-key');
+		assert.equal(JSON.parse(adapter.readSync(DATA_PATH)).exampleSetting, 'imported');
+		assert.equal('futureSetting' in JSON.parse(adapter.readSync(DATA_PATH)), false);
+		assert.match(Notice.messages[0], /Imported 3 settings/);
+	});
+
+	it('saves edits from the settings tab', async () => {
+		const tab = testPlugin.settingTabs[0];
+		tab.display();
+
+		const input = fake(tab.containerEl).find(el => el.tagName === 'INPUT' && el.value === 'default');
+		assert.ok(input, 'example setting input not rendered');
+		input.simulateInput('edited');
+		assert.equal(plugin.settings.exampleSetting, 'edited');
+
+		// Saving is debounced - closing the tab saves right away
+		tab.hide();
+		await new Promise(resolve => setImmediate(resolve));
+		assert.equal(JSON.parse(adapter.readSync(DATA_PATH)).exampleSetting, 'edited');
+	});
+
+	it('tells the user when saving from the settings tab fails', async () => {
+		const tab = testPlugin.settingTabs[0];
+		tab.display();
+		const input = fake(tab.containerEl).find(el => el.tagName === 'INPUT' && el.value === 'default');
+		assert.ok(input, 'example setting input not rendered');
+
+		adapter.failNext('write');
+		input.simulateInput('edited');
+		tab.hide();
+		await new Promise(resolve => setImmediate(resolve));
+
+		assert.match(Notice.messages[0], /Could not save settings/);
+	});
+
+	it('applies the log file name only once it is valid and confirmed', async () => {
+		plugin.settings.logging.fileLogging = true;
+		await plugin.saveSettings();
+		const tab = testPlugin.settingTabs[0];
+		tab.display();
+
+		const input = fake(tab.containerEl).find(el => el.tagName === 'INPUT' && el.value === 'debug-log.txt');
+		assert.ok(input, 'log file name input not rendered');
+		for (const partial of ['l', 'lo', 'logs/', 'logs/plugin.tx']) {
+			input.simulateInput(partial, false);
+		}
+		assert.equal(plugin.settings.logging.logFileName, 'debug-log.txt');
+		assert.ok(fake(tab.containerEl).findByClass('example-setting-invalid'), 'problem not shown while typing');
+
+		input.simulateInput('logs/plugin.txt');
+		assert.equal(plugin.settings.logging.logFileName, 'logs/plugin.txt');
+		input.simulateInput('../outside.txt');
+		assert.equal(plugin.settings.logging.logFileName, 'logs/plugin.txt');
+		tab.hide();
+	});
+
+	it('hides the home folder path in log output when asked', async () => {
+		const home = process.env.HOME;
+		process.env.HOME = '/home/tester';
+		try {
+			const logs = captureLogs('info');
+			plugin.settings.logging.redactPaths = true;
+			await plugin.saveSettings();
+			logger.info('api', 'Reading /home/tester/notes/a.md');
+			assert.ok(logs.getEntries().some(entry => entry.message === 'Reading <home>/notes/a.md'));
+		} finally {
+			process.env.HOME = home;
+		}
+	});
+
+	it('counts errors from failing commands instead of throwing', async () => {
+		plugin.errors.addCommand({
+			id: 'broken',
+			name: 'Broken',
+			callback: () => { throw new Error('boom'); }
+		});
+
+		assert.doesNotThrow(() => testPlugin.runCommand('broken'));
+		assert.equal(plugin.errors.getErrorCount('main'), 1);
+		assert.match(Notice.messages[0], /Command "Broken" failed/);
+	});
+
+	it('shows warning and error counts in the status bar', () => {
+		const statusBarEl = fake(testPlugin.statusBarItems[0]);
+		logger.resetLevelCounts();
+		logger.warn('ui', 'Careful');
+		logger.error('api', 'Broken');
+		logger.error('api', 'Broken again');
+
+		assert.equal(statusBarEl.findByClass('example-status-bar-warnings')?.textContent, '1');
+		assert.equal(statusBarEl.findByClass('example-status-bar-errors')?.textContent, '2');
+		assert.ok(statusBarEl.findByClass('example-status-bar-errors')?.hasClass('has-entries'));
+
+		plugin.settings.logging.showStatusBar = false;
+		return plugin.saveSettings().then(() => assert.equal(statusBarEl.isShown(), false));
+	});
+
+	it('changes logging from the status bar menu', async () => {
+		fake(testPlugin.statusBarItems[0]).click();
+		const menu = Menu.lastShown;
+		assert.ok(menu, 'menu not shown');
+
+		// Development builds start every component at debug
+		assert.equal(logger.getConfig().ui, 'debug');
+		await menu.getItem('Log less detail').click();
+		assert.ok(Object.values(logger.getConfig()).every(level => level === 'info'));
+		assert.equal(JSON.parse(adapter.readSync(DATA_PATH)).logging.levels.ui, 'info');
+
+		await menu.getItem('Write log to file').click();
+		assert.equal(plugin.settings.logging.fileLogging, false);
+		assert.equal(logger.isFileLoggingEnabled(), false);
+
+		logger.error('api', 'Counted');
+		menu.getItem('Reset counters').click();
+		assert.equal(logger.getLevelCounts().error, 0);
+	});
+
+	it('lists the ribbon actions available in the active context', () => {
+		fake(testPlugin.ribbonIcons[0]).click();
+		const titles = () => Menu.lastShown?.items.map(item => item !== 'separator' && item.title);
+		assert.deepEqual(titles(), ['Open Example Modal', 'Open Log Viewer', 'Create Debug Report']);
+
+		plugin.settings.actions.ribbon['open-example-modal'] = false;
+		fake(testPlugin.ribbonIcons[0]).click();
+		assert.deepEqual(titles(), ['Open Log Viewer', 'Create Debug Report']);
+	});
+
+	it('hides commands switched off in the settings', () => {
+		assert.equal(testPlugin.isCommandAvailable('create-debug-report'), true);
+		plugin.settings.actions.command['create-debug-report'] = false;
+		assert.equal(testPlugin.isCommandAvailable('create-debug-report'), false);
+	});
+
+	it('runs editor actions against the active editor', async () => {
+		assert.equal(testPlugin.isCommandAvailable('insert-example-setting'), false);
+
+		const file = await app.vault.create('Note.md', '');
+		const leaf = app.workspace.getLeaf();
+		const view = new MarkdownView(leaf, file, 'Value: ');
+		leaf.view = view;
+		app.workspace.activeLeaf = leaf;
+
+		testPlugin.runCommand('insert-example-setting');
+		assert.equal(view.editor.getValue(), `Value: ${plugin.settings.exampleSetting}`);
+	});
+
+	it('adds file actions to the file menu', async () => {
+		const file = await app.vault.create('Note.md', 'Some text');
+		const menu = new Menu();
+		app.workspace.trigger('file-menu', menu, file, 'file-explorer', new WorkspaceLeaf(app.workspace));
+
+		menu.getItem('Show File Info').click();
+		assert.match(Notice.messages[0], /^Note\.md\n9 bytes/);
+
+		const folderMenu = new Menu();
+		app.workspace.trigger('file-menu', folderMenu, await app.vault.createFolder('Folder'), 'file-explorer');
+		assert.deepEqual(folderMenu.items, []);
+	});
+
+	it('broadcasts saved settings changes', async () => {
+		const changed: string[][] = [];
+		plugin.events.on('settings-changed', ({ changes }) => {
+			changed.push(changes.map(change => change.path));
+		});
+
+		plugin.settings.logging.showStatusBar = false;
+		await plugin.saveSettings();
+		await plugin.saveSettings();
+
+		assert.deepEqual(changed, [['logging.showStatusBar']]);
+	});
+
+	it('records no note history unless the flag is switched on', async () => {
+		const file = await app.vault.create('Note.md', '');
+		const leaf = new WorkspaceLeaf(app.workspace);
+		await leaf.openFile(file);
+		app.workspace.activeLeaf = leaf;
+
+		testPlugin.runCommand('show-file-info');
+		assert.doesNotMatch(Notice.messages[0], /Opened/);
+
+		await testPlugin.unload();
+		assert.equal(await adapter.exists(`${TEST_MANIFEST.dir}/data/note-history.json`), false);
+	});
+
+	it('counts note opens and saves them on unload', async () => {
+		plugin.settings.features.noteHistory = true;
+		const file = await app.vault.create('Note.md', '');
+		const leaf = new WorkspaceLeaf(app.workspace);
+		await leaf.openFile(file);
+		await leaf.openFile(file);
+		app.workspace.activeLeaf = leaf;
+
+		testPlugin.runCommand('show-file-info');
+		assert.match(Notice.messages[0], /Opened 2 times$/);
+
+		await app.vault.rename(file, 'Renamed.md');
+		await testPlugin.unload();
+		const saved = JSON.parse(adapter.readSync(`${TEST_MANIFEST.dir}/data/note-history.json`));
+		assert.deepEqual(Object.keys(saved.records), ['Renamed.md']);
+		assert.equal(saved.records['Renamed.md'].opens, 2);
+	});
+
+	it('applies the logging override file on load without changing the settings', async () => {
+		adapter.writeSync(`${TEST_MANIFEST.dir}/logging-override.json`, JSON.stringify({ levels: { api: 'error' }, diagnostic: true }));
+		const second = new ExamplePlugin(app as unknown as ObsidianApp, TEST_MANIFEST as PluginManifest);
+		const testSecond = second as unknown as Plugin;
+		await testSecond.load();
+
+		assert.equal(logger.getConfig().api, 'error');
+		assert.equal(second.settings.logging.levels.api, 'debug');
+		assert.equal(logger.getDiagnosticMode().active, true);
+		assert.ok(testSecond.isCommandAvailable('stop-diagnostic-mode'));
+		assert.ok(fake(testSecond.statusBarItems[0]).findByClass('example-status-bar-diagnostic')?.isShown());
+
+		// Diagnostic mode ends with the plugin
+		await testSecond.unload();
+		assert.equal(logger.getDiagnosticMode().active, false);
+	});
+
+	it('restarts diagnostic mode only when the override file changes its value', async () => {
+		const path = `${TEST_MANIFEST.dir}/logging-override.json`;
+		const edit = async (override: object) => {
+			mock.timers.tick(60 * 1000);
+			adapter.writeSync(path, JSON.stringify(override));
+			adapter.setMtime(path, Date.now());
+			// The next check of the file
+			mock.timers.tick(2000);
+			await new Promise(resolve => setImmediate(resolve));
+		};
+
+		mock.timers.enable({ apis: ['setInterval', 'Date'], now: Date.now() });
+		try {
+			adapter.writeSync(path, JSON.stringify({ diagnostic: 30 }));
+			const second = new ExamplePlugin(app as unknown as ObsidianApp, TEST_MANIFEST as PluginManifest);
+			await (second as unknown as Plugin).load();
+			const { until } = logger.getDiagnosticMode();
+
+			await edit({ diagnostic: 30, levels: { api: 'error' } });
+			assert.equal(logger.getConfig().api, 'error');
+			assert.equal(logger.getDiagnosticMode().until, until);
+
+			await edit({ diagnostic: 60, levels: { api: 'error' } });
+			assert.equal(logger.getDiagnosticMode().until, Date.now() + 60 * 60 * 1000);
+
+			await (second as unknown as Plugin).unload();
+		} finally {
+			mock.timers.reset();
+		}
+	});
+
+	it('switches runtime feature flags from the settings and logs the change', async () => {
+		const logs = captureLogs('info');
+		const file = await app.vault.create('Note.md', '');
+		const fileMenu = () => {
+			const menu = new Menu();
+			app.workspace.trigger('file-menu', menu, file, 'file-explorer');
+			return menu.items.length;
+		};
+		assert.equal(fileMenu(), 1);
+
+		plugin.settings.features.contextMenus = false;
+		await plugin.saveSettings();
+		assert.equal(fileMenu(), 0);
+		assert.ok(logs.getEntries().some(entry => entry.message === 'Feature flag "contextMenus" disabled'));
+	});
+
+	it('lists every feature flag from the debug command', () => {
+		testPlugin.runCommand('show-feature-flags');
+		assert.match(Notice.messages[0], /^Feature flags\ncontextMenus: on/);
+		assert.match(Notice.messages[0], /debugCommands: on \(build value\)/);
+	});
+});
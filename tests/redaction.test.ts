@@ -0,0 +1,106 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { LogEntry, logger, pathRule, REDACTED, Redactor } from '../src/utils/Logger';
+import { captureLogs } from './helpers';
+
+function entry(message: string, ...args: unknown[]): LogEntry {
+	return { timestamp: 0, level: 'info', component: 'api', message, args };
+}
+
+describe('Redactor', () => {
+	const redactor = new Redactor();
+
+	it('masks the values of every secret key pattern', () => {
+		const keys = ['token', 'accessToken', 'clientSecret', 'password', 'passwd', 'apiKey', 'api_key', 'api-key', 'Authorization', 'Set-Cookie'];
+		const value: Record<string, string> = {};
+		for (const key of keys) value[key] = 'hunter2';
+		value.username = 'alice';
+
+		const redacted = redactor.redactValue(value) as Record<string, string>;
+		for (const key of keys) assert.equal(redacted[key], REDACTED, key);
+		assert.equal(redacted.username, 'alice');
+		assert.equal(value.password, 'hunter2', 'original modified');
+	});
+
+	it('replaces bearer tokens and email addresses inside messages', () => {
+		const redacted = redactor.redactEntry(entry('Request by alice@example.com with Bearer abc.DEF-123_x= failed', 'Bearer xyz', { note: 'cc bob@example.org' }));
+		assert.equal(redacted.message, 'Request by [EMAIL] with Bearer [REDACTED] failed');
+		assert.deepEqual(redacted.args, ['Bearer [REDACTED]', { note: 'cc [EMAIL]' }]);
+	});
+
+	it('replaces the vault and home folder paths in either slash style', () => {
+		const paths = new Redactor([
+			pathRule('vault-path', '/home/alice/Vault/', '<vault>'),
+			pathRule('home-path', 'C:\\Users\\alice', '<home>')
+		]);
+		assert.equal(paths.redactString('Read /home/alice/Vault/Notes/a.md'), 'Read <vault>/Notes/a.md');
+		assert.equal(paths.redactString('Config in C:/Users/alice/.config and c:\\users\\alice\\AppData'), 'Config in <home>/.config and <home>\\AppData');
+	});
+
+	it('replaces the vault before the home folder that contains it', () => {
+		const paths = new Redactor([
+			pathRule('vault-path', '/home/alice/Vault', '<vault>'),
+			pathRule('home-path', '/home/alice', '<home>')
+		]);
+		assert.equal(paths.redactString('/home/alice/Vault/a.md and /home/alice/b.md'), '<vault>/a.md and <home>/b.md');
+	});
+
+	it('redacts errors and their causes, keeping the error type', () => {
+		const cause = Object.assign(new Error('Login as bob@example.com refused'), { password: 'hunter2' });
+		const error = Object.assign(new TypeError('Bearer abc failed'), { cause });
+		const redacted = redactor.redactValue(error) as TypeError & { cause: Error & { password: string } };
+
+		assert.ok(redacted instanceof TypeError);
+		assert.equal(redacted.message, 'Bearer [REDACTED] failed');
+		assert.doesNotMatch(redacted.stack ?? '', /Bearer abc/);
+		assert.equal(redacted.cause.message, 'Login as [EMAIL] refused');
+		assert.equal(redacted.cause.password, REDACTED);
+	});
+
+	it('copies cyclic objects without looping', () => {
+		const value: Record<string, unknown> = { token: 'abc' };
+		value.self = value;
+		const redacted = redactor.redactValue(value) as Record<string, unknown>;
+		assert.equal(redacted.token, REDACTED);
+		assert.equal(redacted.self, redacted);
+	});
+
+	it('redacts Map and Set contents', () => {
+		const redacted = redactor.redactValue({
+			headers: new Map([['authorization', 'Basic abc'], ['accept', 'mail to a@b.io']]),
+			recipients: new Set(['a@b.io'])
+		}) as { headers: Map<string, string>; recipients: Set<string> };
+
+		assert.deepEqual(Array.from(redacted.headers), [['authorization', REDACTED], ['accept', 'mail to [EMAIL]']]);
+		assert.deepEqual(Array.from(redacted.recipients), ['[EMAIL]']);
+	});
+
+	it('reaches deeply nested values', () => {
+		let value: Record<string, unknown> = { password: 'hunter2' };
+		for (let depth = 0; depth < 20; depth++) value = { nested: value };
+
+		let redacted = redactor.redactValue(value) as Record<string, unknown>;
+		while (redacted.nested) redacted = redacted.nested as Record<string, unknown>;
+		assert.equal(redacted.password, REDACTED);
+	});
+
+	it('redacts secrets held by class instances', () => {
+		class Request {
+			headers = { authorization: 'Bearer abc' };
+			constructor(readonly url: string, private apiKey: string) {}
+		}
+		const redacted = redactor.redactValue(new Request('https://example.com/?to=a@b.io', 'key-123')) as Record<string, unknown>;
+		assert.deepEqual(redacted, { headers: { authorization: REDACTED }, url: 'https://example.com/?to=[EMAIL]', apiKey: REDACTED });
+	});
+});
+
+describe('Logger redaction', () => {
+	it('redacts entries before any sink sees them', () => {
+		const sink = captureLogs('debug');
+		logger.info('api', 'Token for alice@example.com', { token: 'abc', retries: 2 });
+
+		const [logged] = sink.getEntries();
+		assert.equal(logged.message, 'Token for [EMAIL]');
+		assert.deepEqual(logged.args, [{ token: REDACTED, retries: 2 }]);
+	});
+});
@@ -0,0 +1,72 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { safeStringify, toSerializable } from '../src/utils/Logger';
+import { createTestVault } from './helpers';
+
+describe('toSerializable', () => {
+	it('keeps error fields and causes', () => {
+		const cause = new Error('Disk full');
+		const error = Object.assign(new RangeError('Write failed'), { cause, code: 'ENOSPC' });
+		const result = toSerializable(error) as Record<string, unknown>;
+
+		assert.equal(result.name, 'RangeError');
+		assert.equal(result.message, 'Write failed');
+		assert.equal(result.code, 'ENOSPC');
+		assert.match(String(result.stack), /Write failed/);
+		assert.equal((result.cause as Record<string, unknown>).message, 'Disk full');
+	});
+
+	it('marks circular references with their path', () => {
+		const parent: Record<string, unknown> = { name: 'parent' };
+		parent.child = { parent };
+		parent.self = parent;
+		assert.deepEqual(toSerializable(parent), { name: 'parent', child: { parent: '[Circular ~]' }, self: '[Circular ~]' });
+	});
+
+	it('keeps repeated objects that are not cycles', () => {
+		const shared = { id: 1 };
+		assert.deepEqual(toSerializable([shared, shared]), [{ id: 1 }, { id: 1 }]);
+	});
+
+	it('expands Map and Set', () => {
+		assert.deepEqual(toSerializable(new Map([['a', 1]])), { $type: 'Map', size: 1, entries: [['a', 1]] });
+		assert.deepEqual(toSerializable(new Set(['x'])), { $type: 'Set', size: 1, values: ['x'] });
+	});
+
+	it('summarizes values past the depth limit', () => {
+		const deep = { a: { b: { c: { d: [1] } } } };
+		assert.deepEqual(toSerializable(deep, { maxDepth: 2 }), { a: { b: '[Object]' } });
+		assert.deepEqual(toSerializable(deep, { maxDepth: 4 }), { a: { b: { c: { d: '[Array(1)]' } } } });
+	});
+
+	it('truncates long strings, arrays and objects', () => {
+		assert.equal(toSerializable('abcdef', { maxStringLength: 3 }), 'abc…(+3 chars)');
+		assert.deepEqual(toSerializable([1, 2, 3], { maxArrayLength: 2 }), [1, 2, '… 1 more items']);
+		assert.deepEqual(toSerializable({ a: 1, b: 2, c: 3 }, { maxKeys: 1 }), { a: 1, '…': '2 more keys' });
+	});
+
+	it('turns values JSON lacks into strings', () => {
+		assert.deepEqual(toSerializable([undefined, NaN, BigInt(10), () => 1, new Date(0)]),
+			['[undefined]', 'NaN', '10n', '[Function anonymous]', '1970-01-01T00:00:00.000Z']);
+	});
+
+	it('summarizes Obsidian files instead of walking the vault', async () => {
+		const { app } = createTestVault();
+		const file = await app.vault.create('Notes/a.md', '');
+		assert.deepEqual(toSerializable({ file, folder: file.parent }), {
+			file: { $type: 'TFile', path: 'Notes/a.md' },
+			folder: { $type: 'TFolder', path: 'Notes' }
+		});
+	});
+});
+
+describe('safeStringify', () => {
+	it('never throws', () => {
+		const value = {
+			get broken(): string {
+				throw new Error('getter failed');
+			}
+		};
+		assert.match(safeStringify(value), /^"\[Unserializable: Error: getter failed\]"$/);
+	});
+});
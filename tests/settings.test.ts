@@ -0,0 +1,222 @@
+import { beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { LoggingOverride, LoggingOverrideWatcher, parseLoggingOverride } from '../src/settings/loggingOverride';
+import { SETTINGS_VERSION } from '../src/settings/migrations';
+import { loadVersionedSettings } from '../src/settings/persistence';
+import { DEFAULT_SETTINGS, ExamplePluginSettings, logFileName } from '../src/settings/settings';
+import { diffSettings, exportSettings, parseSettingsImport } from '../src/settings/transfer';
+import { deepMerge } from '../src/settings/validation';
+import { captureLogs, createTestVault, TEST_MANIFEST, TestVault } from './helpers';
+
+const PLUGIN_DIR = TEST_MANIFEST.dir as string;
+const DATA_PATH = `${PLUGIN_DIR}/data.json`;
+
+describe('loadVersionedSettings', () => {
+	let vault: TestVault;
+
+	beforeEach(() => {
+		captureLogs('warn');
+		vault = createTestVault();
+	});
+
+	const load = () => loadVersionedSettings(vault.obsidianPlugin, PLUGIN_DIR);
+	const saved = () => JSON.parse(vault.adapter.readSync(DATA_PATH));
+
+	it('uses the defaults without writing anything when nothing is saved', async () => {
+		const settings = await load();
+		assert.deepEqual(settings, DEFAULT_SETTINGS);
+		assert.notEqual(settings.logging, DEFAULT_SETTINGS.logging);
+		assert.deepEqual(vault.adapter.allFiles(), []);
+	});
+
+	it('fills in settings added since the data was saved', async () => {
+		await vault.plugin.saveData({ version: SETTINGS_VERSION, exampleSetting: 'mine' });
+		const settings = await load();
+		assert.equal(settings.exampleSetting, 'mine');
+		assert.equal(settings.exampleColor, DEFAULT_SETTINGS.exampleColor);
+		assert.deepEqual(settings.logging, DEFAULT_SETTINGS.logging);
+	});
+
+	it('migrates old data, backs up the original and saves the result', async () => {
+		const original = { exampleSetting: 'old', logging: { tagFilters: { ui: ['validation'] } } };
+		await vault.plugin.saveData(original);
+
+		const settings = await load();
+		assert.equal(settings.version, SETTINGS_VERSION);
+		assert.deepEqual(settings.logging.tagFilters.ui, { include: ['validation'] });
+
+		assert.deepEqual(JSON.parse(vault.adapter.readSync(`${PLUGIN_DIR}/data.v0.backup.json`)), original);
+		assert.equal(saved().version, SETTINGS_VERSION);
+		assert.deepEqual(saved().logging.tagFilters.ui, { include: ['validation'] });
+	});
+
+	it('repairs invalid values and saves the repaired settings', async () => {
+		await vault.plugin.saveData({
+			version: SETTINGS_VERSION,
+			exampleColor: 'purple',
+			logging: { maxLogFiles: -2, levels: { ui: 'loud' } }
+		});
+
+		const settings = await load();
+		assert.equal(settings.exampleColor, DEFAULT_SETTINGS.exampleColor);
+		assert.equal(settings.logging.maxLogFiles, DEFAULT_SETTINGS.logging.maxLogFiles);
+		assert.equal(settings.logging.levels.ui, DEFAULT_SETTINGS.logging.levels.ui);
+		assert.equal(saved().exampleColor, DEFAULT_SETTINGS.exampleColor);
+		assert.ok(vault.adapter.hasFile(`${PLUGIN_DIR}/data.v${SETTINGS_VERSION}.backup.json`));
+	});
+
+	it('does not rewrite settings saved by a newer version', async () => {
+		const newer = { version: SETTINGS_VERSION + 1, exampleSetting: 'future', futureOption: true };
+		await vault.plugin.saveData(newer);
+
+		const settings = await load();
+		assert.equal(settings.exampleSetting, 'future');
+		assert.deepEqual(saved(), newer);
+	});
+
+	it('keeps the migrated settings in memory when the backup fails', async () => {
+		await vault.plugin.saveData({ exampleSetting: 'old' });
+		vault.adapter.failNext('write');
+
+		const settings = await load();
+		assert.equal(settings.exampleSetting, 'old');
+		assert.equal(saved().version, undefined);
+	});
+
+	it('round-trips through saveData and loadData', async () => {
+		const settings = await load();
+		settings.exampleExcludedFolders = ['Archive', 'Templates'];
+		settings.logging.maxLogAgeDays = 14;
+		await vault.plugin.saveData(settings);
+
+		assert.deepEqual(await load(), settings);
+	});
+});
+
+describe('logFileName check', () => {
+	it('accepts vault-relative paths with a log extension', () => {
+		for (const path of ['debug-log.txt', 'logs/plugin.log', 'logs/plugin.JSONL']) {
+			assert.equal(logFileName(path), null, path);
+		}
+	});
+
+	it('rejects partial names, paths outside the vault and other extensions', () => {
+		for (const path of ['', ' ', 'd', 'debu.tx', 'logs/', '/debug-log.txt', '../debug-log.txt', 'logs//debug-log.txt', 'debug:log.txt', 'notes.md']) {
+			assert.notEqual(logFileName(path), null, path);
+		}
+	});
+});
+
+describe('Settings import', () => {
+	let current: ExamplePluginSettings;
+
+	beforeEach(() => {
+		captureLogs('warn');
+		current = deepMerge(DEFAULT_SETTINGS, { exampleSetting: 'mine', exampleApiKey: 'secret-key' });
+	});
+
+	const paths = (text: string) => parseSettingsImport(text, current).changes.map(change => change.path);
+
+	it('rejects files that are not a settings object', () => {
+		assert.throws(() => parseSettingsImport('{ "exampleSetting": ', current), /Not a valid JSON file/);
+		assert.throws(() => parseSettingsImport('["exampleSetting"]', current), /does not contain a settings object/);
+		assert.throws(() => parseSettingsImport(JSON.stringify({ version: SETTINGS_VERSION + 1 }), current), /newer version/);
+		assert.throws(() => parseSettingsImport(JSON.stringify({ name: 'package', dependencies: {} }), current), /not a settings export/);
+	});
+
+	it('reads settings wrapped in a settings object', () => {
+		assert.deepEqual(paths(JSON.stringify({ settings: { version: SETTINGS_VERSION, exampleSetting: 'theirs' } })), ['exampleSetting']);
+	});
+
+	it('migrates files exported before the current schema version', () => {
+		const { settings, changes } = parseSettingsImport(JSON.stringify({ version: 0, logging: { tagFilters: { ui: ['validation'] } } }), current);
+
+		assert.equal(settings.version, SETTINGS_VERSION);
+		assert.deepEqual(settings.logging.tagFilters.ui, { include: ['validation'] });
+		assert.deepEqual(changes, [{ path: 'logging.tagFilters.ui', before: undefined, after: { include: ['validation'] }, secret: false }]);
+	});
+
+	it('discards unknown keys', () => {
+		const { settings, changes } = parseSettingsImport(JSON.stringify({ version: SETTINGS_VERSION, futureSetting: { enabled: true }, exampleSetting: 'theirs' }), current);
+
+		assert.equal('futureSetting' in settings, false);
+		assert.deepEqual(changes.map(change => change.path), ['exampleSetting']);
+	});
+
+	it('keeps the current secrets when the file was exported without them', () => {
+		const exported = exportSettings(deepMerge(current, { exampleSetting: 'theirs', exampleApiKey: 'their-key' }), false);
+		const { settings, changes } = parseSettingsImport(exported, current);
+
+		assert.equal(settings.exampleApiKey, 'secret-key');
+		assert.deepEqual(changes.map(change => change.path), ['exampleSetting']);
+	});
+
+	it('marks imported secrets so their values are not shown', () => {
+		const exported = exportSettings(deepMerge(current, { exampleApiKey: 'their-key' }), true);
+		assert.deepEqual(parseSettingsImport(exported, current).changes, [{ path: 'exampleApiKey', before: 'secret-key', after: 'their-key', secret: true }]);
+	});
+
+	it('replaces invalid values with defaults and reports them', () => {
+		const { settings, repairs } = parseSettingsImport(JSON.stringify({ version: SETTINGS_VERSION, exampleColor: 'purple', logging: { maxLogFiles: '3' } }), current);
+
+		assert.equal(settings.exampleColor, DEFAULT_SETTINGS.exampleColor);
+		assert.deepEqual(repairs.map(repair => repair.path), ['exampleColor', 'logging.maxLogFiles']);
+		assert.deepEqual(paths(JSON.stringify({ version: SETTINGS_VERSION, exampleColor: 'purple' })), []);
+	});
+
+	it('compares objects key by key and arrays as a whole', () => {
+		assert.deepEqual(diffSettings(
+			{ a: 1, list: [1, 2], nested: { b: 'x', gone: true } },
+			{ a: 1, list: [2, 1], nested: { b: 'y' }, added: null }
+		), [
+			{ path: 'list', before: [1, 2], after: [2, 1], secret: false },
+			{ path: 'nested.b', before: 'x', after: 'y', secret: false },
+			{ path: 'nested.gone', before: true, after: undefined, secret: false },
+			{ path: 'added', before: undefined, after: null, secret: false }
+		]);
+		assert.deepEqual(diffSettings(current, deepMerge(current, {})), []);
+	});
+});
+
+describe('Logging override file', () => {
+	const PATH = `${PLUGIN_DIR}/logging-override.json`;
+
+	it('keeps valid entries and reports the rest', () => {
+		const { override, problems } = parseLoggingOverride(JSON.stringify({
+			levels: { api: 'debug', ui: 'loud', unknown: 'info' },
+			tagFilters: { ui: '-rendering, sync:*=debug' },
+			diagnostic: 30
+		}));
+
+		assert.deepEqual(override, {
+			levels: { api: 'debug' },
+			tagFilters: { ui: { include: [], exclude: ['rendering'], tagLevels: { 'sync:*': 'debug' } } },
+			diagnostic: 30
+		});
+		assert.equal(problems.length, 2);
+		assert.throws(() => parseLoggingOverride('{ levels'), /Not valid JSON/);
+	});
+
+	it('reports when the file appears, changes and goes away', async () => {
+		captureLogs('error');
+		const { adapter, obsidianApp } = createTestVault();
+		const seen: (LoggingOverride | null)[] = [];
+		const watcher = new LoggingOverrideWatcher(obsidianApp, PATH, override => seen.push(override));
+
+		await watcher.check();
+		adapter.writeSync(PATH, '{ "diagnostic": true }');
+		await watcher.check();
+		await watcher.check();
+		adapter.writeSync(PATH, '{ "levels": { "api": "info" } }');
+		adapter.setMtime(PATH, Date.now() + 1000);
+		await watcher.check();
+		await adapter.remove(PATH);
+		await watcher.check();
+
+		assert.deepEqual(seen, [
+			{ levels: {}, tagFilters: {}, diagnostic: true },
+			{ levels: { api: 'info' }, tagFilters: {} },
+			null
+		]);
+	});
+});
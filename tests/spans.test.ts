@@ -0,0 +1,174 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { logger, MemorySink } from '../src/utils/Logger';
+import { Span, SpanTracker } from '../src/utils/logging/spans';
+import { LogLevel } from '../src/utils/logging/types';
+import { captureLogs } from './helpers';
+
+interface Logged {
+	span: Span | undefined;
+	level: LogLevel;
+	message: string;
+	args: unknown[];
+}
+
+function tracker(enabled = true): { spans: SpanTracker; logged: Logged[] } {
+	const logged: Logged[] = [];
+	const spans = new SpanTracker(() => enabled, (span, _component, _context, level, message, args) => {
+		logged.push({ span, level, message, args });
+	});
+	return { spans, logged };
+}
+
+describe('Span timing', () => {
+	let time = 0;
+
+	beforeEach(() => {
+		time = 100;
+		mock.method(performance, 'now', () => time);
+	});
+
+	afterEach(() => {
+		mock.restoreAll();
+	});
+
+	it('logs the duration and outcome when a span ends', () => {
+		const { spans, logged } = tracker();
+		const span = spans.start('api', 'sync');
+		time += 42.56;
+
+		assert.equal(span.end(), 42.6);
+		assert.equal(logged[0].level, 'debug');
+		assert.equal(logged[0].message, 'sync finished in 42.6ms');
+		assert.deepEqual(logged[0].args, [{ durationMs: 42.6, outcome: 'success' }, ['span']]);
+	});
+
+	it('logs a failed span as an error with the cause', () => {
+		const { spans, logged } = tracker();
+		const span = spans.start('api', 'sync');
+		const error = new Error('Offline');
+		time += 5;
+		span.end(error);
+
+		assert.equal(logged[0].level, 'error');
+		assert.equal(logged[0].message, 'sync failed after 5ms');
+		assert.deepEqual(logged[0].args, [{ durationMs: 5, outcome: 'error' }, error, ['span']]);
+	});
+
+	it('ignores a second end', () => {
+		const { spans, logged } = tracker();
+		const span = spans.start('api', 'sync');
+		time += 10;
+		span.end();
+		time += 10;
+
+		assert.equal(span.end(new Error('Late')), 10);
+		assert.equal(logged.length, 1);
+	});
+
+	it('ends withSpan spans when the promise settles', async () => {
+		const { spans, logged } = tracker();
+		const result = await spans.run('api', 'sync', async () => {
+			await Promise.resolve();
+			time += 20;
+			return 'done';
+		});
+
+		assert.equal(result, 'done');
+		assert.equal(logged[0].message, 'sync finished in 20ms');
+
+		await assert.rejects(spans.run('api', 'upload', async () => {
+			throw new Error('Offline');
+		}), /Offline/);
+		assert.equal(logged[1].message, 'upload failed after 0ms');
+	});
+});
+
+describe('Span nesting', () => {
+	it('gives child spans the outermost id as correlation id and a name path', () => {
+		const { spans } = tracker();
+		const root = spans.start('api', 'sync');
+		const child = root.startSpan('upload');
+		const grandchild = child.startSpan('chunk');
+
+		assert.equal(root.correlationId, root.id);
+		assert.notEqual(child.id, root.id);
+		assert.equal(child.correlationId, root.id);
+		assert.equal(grandchild.correlationId, root.id);
+		assert.equal(grandchild.name, 'sync > upload > chunk');
+	});
+
+	it('nests tracker spans under the running withSpan callback only', () => {
+		const { spans } = tracker();
+		let inner: Span | undefined;
+		const outer = spans.run('api', 'sync', span => {
+			assert.equal(spans.current(), span);
+			inner = spans.start('api', 'upload');
+			return span;
+		});
+
+		assert.equal(inner?.correlationId, outer.id);
+		assert.equal(inner?.name, 'sync > upload');
+		assert.equal(spans.current(), undefined);
+
+		const later = spans.start('api', 'later');
+		assert.equal(later.correlationId, later.id);
+		assert.equal(later.name, 'later');
+	});
+
+	it('leaves the running span when the callback throws', () => {
+		const { spans, logged } = tracker();
+		assert.throws(() => spans.run('api', 'sync', () => {
+			throw new Error('Broken');
+		}), /Broken/);
+		assert.equal(spans.current(), undefined);
+		assert.equal(logged[0].level, 'error');
+	});
+
+	it('only passes messages through when spans are disabled', () => {
+		const { spans, logged } = tracker(false);
+		const span = spans.start('api', 'sync');
+		span.info('Uploading');
+		span.debug('Dropped');
+
+		assert.equal(span.id, '');
+		assert.equal(span.startSpan('upload'), span);
+		assert.equal(span.end(), 0);
+		assert.deepEqual(logged.map(entry => [entry.span, entry.message]), [[undefined, 'Uploading']]);
+	});
+});
+
+describe('Span entries', () => {
+	let sink: MemorySink;
+
+	beforeEach(() => {
+		sink = captureLogs('debug');
+	});
+
+	afterEach(async () => {
+		await logger.removeSink(sink.name);
+	});
+
+	it('carry the correlation id and span path', () => {
+		logger.withSpan('api', 'sync', span => {
+			span.info('Uploading', ['upload']);
+			logger.info('api', 'Logged through the logger');
+			span.withSpan('upload', child => child.warn('Slow'));
+		});
+		logger.info('api', 'Outside');
+
+		const entries = sink.getEntries();
+		const correlationId = entries[0].correlationId;
+		assert.ok(correlationId);
+		assert.deepEqual(entries.map(entry => [entry.message, entry.span, entry.correlationId === correlationId]), [
+			['Uploading', 'sync', true],
+			['Logged through the logger', 'sync', true],
+			['Slow', 'sync > upload', true],
+			[entries[3].message, 'sync > upload', true],
+			[entries[4].message, 'sync', true],
+			['Outside', undefined, false]
+		]);
+		assert.deepEqual(entries[0].tags, ['upload']);
+		assert.match(entries[4].message, /^sync finished in [\d.]+ms$/);
+	});
+});
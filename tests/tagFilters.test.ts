@@ -0,0 +1,80 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { formatTagFilterSpec, matchesTagPattern, parseTagFilterSpec } from '../src/utils/Logger';
+import { TagFilter } from '../src/utils/logging/tagFilters';
+
+describe('matchesTagPattern', () => {
+	it('matches a plain pattern and everything below it', () => {
+		assert.ok(matchesTagPattern('sync', 'sync'));
+		assert.ok(matchesTagPattern('sync', 'sync:conflict'));
+		assert.ok(matchesTagPattern('sync:conflict', 'sync:conflict:remote'));
+		assert.ok(!matchesTagPattern('sync', 'synchronize'));
+		assert.ok(!matchesTagPattern('sync:conflict', 'sync'));
+		assert.ok(!matchesTagPattern('sync:conflict', 'vault:conflict'));
+	});
+
+	it('matches exactly one segment with an inner wildcard', () => {
+		assert.ok(matchesTagPattern('sync:*:remote', 'sync:conflict:remote'));
+		assert.ok(matchesTagPattern('sync:*:remote', 'sync:upload:remote:retry'));
+		assert.ok(!matchesTagPattern('sync:*:remote', 'sync:conflict:local'));
+		assert.ok(!matchesTagPattern('sync:*:remote', 'sync:remote'));
+		assert.ok(!matchesTagPattern('sync:*:remote', 'sync'));
+	});
+
+	it('matches one or more segments with a trailing wildcard', () => {
+		assert.ok(matchesTagPattern('sync:*', 'sync:conflict'));
+		assert.ok(matchesTagPattern('sync:*', 'sync:conflict:remote'));
+		assert.ok(!matchesTagPattern('sync:*', 'sync'));
+		assert.ok(matchesTagPattern('*', 'anything'));
+	});
+});
+
+describe('TagFilter', () => {
+	it('excludes at every level before anything else is checked', () => {
+		const filter = new TagFilter({ exclude: ['sync:*'], tagLevels: { 'sync:conflict': 'debug' } });
+		assert.ok(!filter.allows('error', 'info', ['sync:conflict']));
+		assert.ok(filter.allows('error', 'info', ['sync']), 'the bare parent tag is not below the wildcard');
+	});
+
+	it('lets a broad exclude win over a narrower include', () => {
+		const filter = new TagFilter({ include: ['sync:upload'], exclude: ['sync'] });
+		assert.ok(!filter.allows('debug', 'debug', ['sync:upload']));
+	});
+
+	it('drops a message when any of its tags is excluded', () => {
+		const filter = new TagFilter({ include: ['sync'], exclude: ['sync:upload'] });
+		assert.ok(filter.allows('debug', 'debug', ['sync:download']));
+		assert.ok(!filter.allows('debug', 'debug', ['sync:download', 'sync:upload:retry']));
+	});
+
+	it('uses the most permissive matching tag level', () => {
+		const filter = new TagFilter({ tagLevels: { 'sync:*': 'warn', 'sync:conflict': 'debug' } });
+		assert.equal(filter.effectiveLevel('error', ['sync:conflict:remote']), 'debug');
+		assert.equal(filter.effectiveLevel('error', ['sync:upload']), 'warn');
+		assert.equal(filter.effectiveLevel('error', ['vault']), 'error');
+		assert.ok(filter.allows('debug', 'error', ['sync:conflict']));
+		assert.ok(!filter.allows('info', 'error', ['sync:upload']));
+	});
+
+	it('lets a tag level raise the minimum above the component level', () => {
+		const filter = new TagFilter({ tagLevels: { noisy: 'error' } });
+		assert.ok(!filter.allows('warn', 'debug', ['noisy:timer']));
+		assert.ok(filter.allows('warn', 'debug', ['quiet']));
+	});
+
+	it('restricts only debug messages to included tags', () => {
+		const filter = new TagFilter({ include: ['sync:*'] });
+		assert.ok(filter.allows('debug', 'debug', ['sync:upload']));
+		assert.ok(!filter.allows('debug', 'debug', ['sync']));
+		assert.ok(!filter.allows('debug', 'debug', undefined));
+		assert.ok(filter.allows('info', 'debug', undefined));
+	});
+});
+
+describe('Tag filter spec', () => {
+	it('parses includes, excludes and levels, skipping invalid tokens', () => {
+		const options = parseTagFilterSpec(' validation , -rendering, sync:*=debug, -, bad=loud, ');
+		assert.deepEqual(options, { include: ['validation'], exclude: ['rendering'], tagLevels: { 'sync:*': 'debug' } });
+		assert.equal(formatTagFilterSpec(options), 'validation, -rendering, sync:*=debug');
+	});
+});
@@ -0,0 +1,151 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { LogEntry, LogLevel } from '../src/utils/Logger';
+import { LogThrottle, ThrottleClock } from '../src/utils/logging/throttle';
+
+/**
+ * Clock that only moves when told to
+ */
+class ManualClock implements ThrottleClock {
+	private time = 1000;
+	private timers: { at: number; callback: () => void }[] = [];
+
+	now(): number {
+		return this.time;
+	}
+
+	setTimeout(callback: () => void, ms: number): unknown {
+		const timer = { at: this.time + ms, callback };
+		this.timers.push(timer);
+		return timer;
+	}
+
+	clearTimeout(handle: unknown): void {
+		this.timers = this.timers.filter(timer => timer !== handle);
+	}
+
+	advance(ms: number): void {
+		this.time += ms;
+		const due = this.timers.filter(timer => timer.at <= this.time);
+		this.timers = this.timers.filter(timer => timer.at > this.time);
+		for (const timer of due) timer.callback();
+	}
+
+	get pending(): number {
+		return this.timers.length;
+	}
+}
+
+function entry(message: string, level: LogLevel = 'info', component = 'vault', tags?: string[]): LogEntry {
+	return { timestamp: 0, level, component, message, tags, args: [] };
+}
+
+function setup(): { clock: ManualClock; throttle: LogThrottle; written: LogEntry[] } {
+	const clock = new ManualClock();
+	const written: LogEntry[] = [];
+	const throttle = new LogThrottle(e => written.push(e), clock);
+	return { clock, throttle, written };
+}
+
+describe('LogThrottle deduplication', () => {
+	it('collapses identical consecutive entries until a different one arrives', () => {
+		const { throttle, written } = setup();
+		for (let i = 0; i < 4; i++) throttle.process(entry('File modified'));
+		assert.deepEqual(written.map(e => e.message), ['File modified']);
+
+		throttle.process(entry('File renamed'));
+		assert.deepEqual(written.map(e => e.message), ['File modified', 'File modified (repeated 3 times)', 'File renamed']);
+	});
+
+	it('treats entries with different arguments or levels as distinct', () => {
+		const { throttle, written } = setup();
+		throttle.process({ ...entry('Saved'), args: [1] });
+		throttle.process({ ...entry('Saved'), args: [2] });
+		throttle.process(entry('Saved', 'warn'));
+		assert.equal(written.length, 3);
+	});
+
+	it('writes the repeat count when the summary interval ends', () => {
+		const { clock, throttle, written } = setup();
+		throttle.process(entry('File modified'));
+		throttle.process(entry('File modified'));
+
+		clock.advance(1999);
+		assert.equal(written.length, 1);
+
+		clock.advance(1);
+		assert.equal(written.length, 2);
+		assert.equal(written[1].message, 'File modified (repeated 1 time)');
+		assert.equal(written[1].timestamp, 3000);
+
+		// The next identical entry starts a new run
+		throttle.process(entry('File modified'));
+		assert.equal(written[2].message, 'File modified');
+	});
+
+	it('keeps repeats separate when deduplication is off', () => {
+		const { throttle, written } = setup();
+		throttle.configure({ dedupe: false });
+		throttle.process(entry('File modified'));
+		throttle.process(entry('File modified'));
+		assert.equal(written.length, 2);
+	});
+});
+
+describe('LogThrottle rate limits', () => {
+	it('drops entries once the bucket is empty and summarizes them', () => {
+		const { clock, throttle, written } = setup();
+		throttle.configure({ dedupe: false, componentLimits: { vault: { perSecond: 1, burst: 2 } } });
+
+		for (let i = 0; i < 5; i++) throttle.process(entry(`Event ${i}`));
+		assert.deepEqual(written.map(e => e.message), ['Event 0', 'Event 1']);
+
+		clock.advance(2000);
+		assert.equal(written.length, 3);
+		assert.equal(written[2].message, "Dropped 3 messages (rate limit 'vault': 1/s)");
+		assert.deepEqual(written[2].tags, ['rate-limit']);
+		assert.equal(clock.pending, 0);
+	});
+
+	it('refills the bucket over time', () => {
+		const { clock, throttle, written } = setup();
+		throttle.configure({ dedupe: false, componentLimits: { vault: { perSecond: 2 } } });
+
+		throttle.process(entry('Event 0'));
+		throttle.process(entry('Event 1'));
+		throttle.process(entry('Event 2'));
+		assert.equal(written.length, 2);
+
+		// Half a second refills one token; the drop is reported before the entry that gets through
+		clock.advance(500);
+		throttle.process(entry('Event 3'));
+		throttle.process(entry('Event 4'));
+		assert.deepEqual(written.slice(2).map(e => e.message), ["Dropped 1 message (rate limit 'vault': 2/s)", 'Event 3']);
+
+		// A long pause refills no more than the burst
+		clock.advance(60000);
+		for (let i = 5; i < 10; i++) throttle.process(entry(`Event ${i}`));
+		assert.deepEqual(written.slice(4).map(e => e.message), ["Dropped 1 message (rate limit 'vault': 2/s)", 'Event 5', 'Event 6']);
+	});
+
+	it('limits by tag pattern and reports the highest dropped level', () => {
+		const { clock, throttle, written } = setup();
+		throttle.configure({ dedupe: false, tagLimits: { 'vault:*': { perSecond: 1 } } });
+
+		throttle.process(entry('Modified', 'info', 'vault', ['vault:modify']));
+		throttle.process(entry('Renamed', 'debug', 'vault', ['vault:rename']));
+		throttle.process(entry('Deleted', 'warn', 'vault', ['vault:delete']));
+		throttle.process(entry('Unrelated', 'info', 'vault', ['ui']));
+
+		clock.advance(2000);
+		assert.deepEqual(written.map(e => e.message), ['Modified', 'Unrelated', "Dropped 2 messages (rate limit tag 'vault:*': 1/s)"]);
+		assert.equal(written[2].level, 'warn');
+	});
+
+	it('never drops errors', () => {
+		const { throttle, written } = setup();
+		throttle.configure({ dedupe: false, defaultComponentLimit: { perSecond: 1 } });
+		for (let i = 0; i < 3; i++) throttle.process(entry(`Failure ${i}`, 'error'));
+		assert.equal(written.length, 3);
+	});
+});